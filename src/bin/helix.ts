@@ -0,0 +1,470 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import { Helix, HelixIdEncoding, HelixIdLayout, HelixOptions, HelixTokenFormat, HelixTokenOptions } from '../classes/Helix';
+import { HelixKey } from '../classes/HelixKey';
+import { HelixClaimError, HelixError } from '../classes/HelixError';
+
+/**
+ * Parsed command-line arguments
+ */
+interface CliArgs {
+    positionals: string[];
+    flags: Record<string, string | true>;
+}
+
+/**
+ * A field of human-readable output; nested objects are printed as indented JSON
+ */
+type CliOutput = Record<string, unknown>;
+
+const USAGE = `Usage: helix <command> [options]
+
+Commands:
+  decode-id <id>                   Show the timestamp, worker ID and sequence of an ID
+  generate-id                      Generate IDs
+      --worker <id>                Worker ID (default derived from host and process)
+      --count <n>                  Number of IDs (default 1)
+  id-range --from <date> --to <date>
+                                   Smallest and largest IDs for a time range
+  sign-token <json>                Sign a JSON payload
+      --expires-in <seconds>       Lifetime of the token
+      --audience, --issuer, --subject, --jti
+                                   Registered claims
+      --jwt                        Produce a JWT instead of a Helix token
+      --kid <id>                   Sign with a key ID
+  inspect-token <token>            Show the header, payload, claims and signature status
+
+Options:
+  --secret <secret>                HMAC secret (default $HELIX_TOKEN_SECRET)
+  --public-key <file>              Ed25519 / P-256 public key in PEM format (inspect-token)
+  --layout <default|discord|twitter>
+                                   ID layout (default: default)
+  --epoch <ms|date>                Custom ID epoch
+  --encoding <decimal|base62|base32|base64url>
+                                   ID encoding; decode-id detects decimal and base32 but
+                                   needs it for 11-character IDs, as base62 and base64url
+                                   look alike
+  --json                           Print JSON instead of human-readable output
+  --help                           Show this help`;
+
+/**
+ * Splits arguments into positionals and `--flag [value]` pairs
+ * @param argv Arguments without the node executable and script path
+ * @returns The parsed arguments
+ */
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { positionals: [], flags: {} };
+    const booleanFlags = new Set(['json', 'jwt', 'help']);
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            args.positionals.push(arg);
+            continue;
+        }
+
+        const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+        if (inlineValue !== undefined) {
+            args.flags[name] = inlineValue;
+        } else if (booleanFlags.has(name) || i + 1 >= argv.length) {
+            args.flags[name] = true;
+        } else {
+            args.flags[name] = argv[++i];
+        }
+    }
+    return args;
+}
+
+/**
+ * Reads a flag that requires a value
+ * @param args The parsed arguments
+ * @param name The flag name
+ * @returns The value, or undefined if the flag is absent
+ * @throws {HelixError} If the flag was given without a value
+ */
+function stringFlag(args: CliArgs, name: string): string | undefined {
+    const value = args.flags[name];
+    if (value === true) {
+        throw new HelixError(`--${name} requires a value`);
+    }
+    return value;
+}
+
+/**
+ * Reads a flag holding a non-negative integer
+ * @param args The parsed arguments
+ * @param name The flag name
+ * @returns The number, or undefined if the flag is absent
+ * @throws {HelixError} If the value is not a non-negative integer
+ */
+function integerFlag(args: CliArgs, name: string): number | undefined {
+    const value = stringFlag(args, name);
+    if (value === undefined) return undefined;
+    if (!/^\d+$/.test(value)) {
+        throw new HelixError(`--${name} must be a non-negative integer`);
+    }
+    return Number(value);
+}
+
+/**
+ * Parses a date given as milliseconds since the Unix epoch or as a date string
+ * @param value The flag value
+ * @param name The flag name, for error messages
+ * @returns The date
+ * @throws {HelixError} If the value is not a valid date
+ */
+function parseDate(value: string, name: string): Date {
+    const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new HelixError(`--${name} is not a valid date: ${value}`);
+    }
+    return date;
+}
+
+/**
+ * Builds the ID layout from the `--layout` and `--epoch` flags
+ * @param args The parsed arguments
+ * @returns The layout
+ * @throws {HelixError} If the layout name or epoch is invalid
+ */
+function layoutFromArgs(args: CliArgs): Partial<HelixIdLayout> {
+    const name = stringFlag(args, 'layout') ?? 'default';
+    const layouts: Record<string, Readonly<HelixIdLayout>> = {
+        default: Helix.DEFAULT_LAYOUT,
+        discord: Helix.DISCORD_LAYOUT,
+        twitter: Helix.TWITTER_LAYOUT
+    };
+    if (!layouts[name]) {
+        throw new HelixError(`Unknown layout: ${name}`);
+    }
+
+    const epoch = stringFlag(args, 'epoch');
+    return epoch === undefined ? layouts[name] : { ...layouts[name], epoch: parseDate(epoch, 'epoch').getTime() };
+}
+
+/**
+ * Reads the `--encoding` flag
+ * @param args The parsed arguments
+ * @returns The encoding, or undefined if not given
+ * @throws {HelixError} If the encoding is unknown
+ */
+function encodingFromArgs(args: CliArgs): HelixIdEncoding | undefined {
+    const encoding = stringFlag(args, 'encoding');
+    if (encoding !== undefined && !['decimal', 'base62', 'base32', 'base64url'].includes(encoding)) {
+        throw new HelixError(`Unknown encoding: ${encoding}`);
+    }
+    return encoding as HelixIdEncoding | undefined;
+}
+
+/**
+ * Determines the encoding of an ID given without `--encoding`
+ * Unlike `Helix.parseId` with `auto`, refuses to guess between encodings the ID could be in.
+ * @param id The encoded ID
+ * @returns The encoding
+ * @throws {HelixError} If the ID could be in more than one encoding
+ */
+function detectEncoding(id: string): HelixIdEncoding {
+    const digitsOnly = /^\d+$/.test(id);
+    if (id.length === 11) {
+        if (/[-_]/.test(id)) return 'base64url';
+        throw new HelixError(`${id} could be base62 or base64url${digitsOnly ? ' or decimal' : ''}; pass --encoding`);
+    }
+    if (id.length === 13) {
+        if (digitsOnly) {
+            throw new HelixError(`${id} could be base32 or decimal; pass --encoding`);
+        }
+        return 'base32';
+    }
+    if (digitsOnly) return 'decimal';
+    throw new HelixError(`Cannot detect the encoding of ${id}; pass --encoding`);
+}
+
+/**
+ * Decodes a Base64URL JSON segment without verifying it
+ * @param segment The encoded segment
+ * @returns The parsed JSON, or undefined if it is not JSON
+ */
+function decodeSegment(segment: string): unknown {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString());
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Formats a NumericDate claim with a relative time
+ * @param seconds Seconds since the Unix epoch
+ * @returns E.g. `2024-01-01T00:00:00.000Z (in 5m 3s)`
+ */
+function describeTime(seconds: number): string {
+    const diff = Math.round(seconds - Date.now() / 1000);
+    const abs = Math.abs(diff);
+    const parts = [[Math.floor(abs / 86400), 'd'], [Math.floor(abs / 3600) % 24, 'h'], [Math.floor(abs / 60) % 60, 'm'], [abs % 60, 's']]
+        .filter(([value]) => value)
+        .slice(0, 2)
+        .map(([value, unit]) => `${value}${unit}`)
+        .join(' ') || '0s';
+    return `${new Date(seconds * 1000).toISOString()} (${diff >= 0 ? `in ${parts}` : `${parts} ago`})`;
+}
+
+/**
+ * Runs `decode-id`
+ * @param args The parsed arguments
+ * @returns The decoded components
+ */
+function decodeIdCommand(args: CliArgs): CliOutput {
+    const [id] = args.positionals;
+    if (!id) {
+        throw new HelixError('decode-id requires an ID');
+    }
+
+    const layout = layoutFromArgs(args);
+    const numeric = Helix.parseId(id, encodingFromArgs(args) ?? detectEncoding(id));
+    const decoded = Helix.decodeId(numeric, layout);
+    return {
+        id: numeric.toString(),
+        timestamp: decoded.timestamp.toISOString(),
+        workerId: decoded.workerId,
+        sequence: decoded.sequence,
+        base62: Helix.encodeId(numeric, 'base62'),
+        base32: Helix.encodeId(numeric, 'base32')
+    };
+}
+
+/**
+ * Runs `generate-id`
+ * @param args The parsed arguments
+ * @returns The generated IDs
+ */
+function generateIdCommand(args: CliArgs): CliOutput {
+    const helix = new Helix({
+        workerId: integerFlag(args, 'worker'),
+        layout: layoutFromArgs(args),
+        idEncoding: encodingFromArgs(args)
+    });
+    return { ids: helix.generateIds(integerFlag(args, 'count') ?? 1) };
+}
+
+/**
+ * Runs `id-range`
+ * @param args The parsed arguments
+ * @returns The smallest and largest IDs for the range
+ */
+function idRangeCommand(args: CliArgs): CliOutput {
+    const from = stringFlag(args, 'from');
+    const to = stringFlag(args, 'to');
+    if (from === undefined || to === undefined) {
+        throw new HelixError('id-range requires --from and --to');
+    }
+
+    const layout = layoutFromArgs(args);
+    const encoding = encodingFromArgs(args) ?? 'decimal';
+    const min = Helix.minIdForDate(parseDate(from, 'from'), layout);
+    const max = Helix.maxIdForDate(parseDate(to, 'to'), layout);
+    return { from: Helix.encodeId(min, encoding), to: Helix.encodeId(max, encoding) };
+}
+
+/**
+ * Creates a Helix instance that signs and verifies with the key from the arguments
+ * @param args The parsed arguments
+ * @param keyId Key ID to register the key under, as carried by the token
+ * @param tokenFormat Format of generated tokens
+ * @returns The Helix instance, or undefined if no key was supplied
+ * @throws {HelixError} If the public key cannot be read or cannot be used without a key ID
+ */
+function helixFromArgs(args: CliArgs, keyId?: string, tokenFormat: HelixTokenFormat = 'helix'): Helix | undefined {
+    const secret = stringFlag(args, 'secret') ?? process.env.HELIX_TOKEN_SECRET;
+    const publicKeyPath = stringFlag(args, 'public-key');
+
+    const options: HelixOptions = { workerId: 0, tokenFormat };
+    if (publicKeyPath !== undefined) {
+        if (keyId === undefined) {
+            throw new HelixError('Tokens without a key ID can only be checked with --secret');
+        }
+        options.keyring = { keys: { [keyId]: HelixKey.fromPem(fs.readFileSync(publicKeyPath)) } };
+    } else if (!secret) {
+        return undefined;
+    } else if (keyId !== undefined) {
+        options.keyring = { keys: { [keyId]: secret }, activeKeyId: keyId };
+    } else {
+        options.tokenSecret = secret;
+    }
+    return new Helix(options);
+}
+
+/**
+ * Runs `sign-token`
+ * @param args The parsed arguments
+ * @returns The signed token
+ */
+function signTokenCommand(args: CliArgs): CliOutput {
+    const [json] = args.positionals;
+    if (json === undefined) {
+        throw new HelixError('sign-token requires a JSON payload');
+    }
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(json);
+    } catch {
+        throw new HelixError('Payload is not valid JSON');
+    }
+
+    const helix = helixFromArgs(args, stringFlag(args, 'kid'), args.flags.jwt ? 'jwt' : 'helix');
+    if (!helix) {
+        throw new HelixError('sign-token requires --secret or HELIX_TOKEN_SECRET');
+    }
+
+    const options: HelixTokenOptions = {
+        expiresIn: integerFlag(args, 'expires-in'),
+        audience: stringFlag(args, 'audience'),
+        issuer: stringFlag(args, 'issuer'),
+        subject: stringFlag(args, 'subject'),
+        jwtId: stringFlag(args, 'jti')
+    };
+    const hasClaims = Object.values(options).some(value => value !== undefined);
+
+    return { token: helix.generateToken(payload, hasClaims ? options : undefined) };
+}
+
+/**
+ * Runs `inspect-token`
+ * @param args The parsed arguments
+ * @returns The token format, header, payload, claims and signature status
+ */
+function inspectTokenCommand(args: CliArgs): CliOutput {
+    const [token] = args.positionals;
+    if (!token) {
+        throw new HelixError('inspect-token requires a token');
+    }
+
+    const parts = token.split('.');
+    const header = parts.length === 3 ? decodeSegment(parts[0]) as Record<string, unknown> | undefined : undefined;
+    const isJwt = header !== undefined && header !== null && typeof header === 'object' && 'alg' in header;
+
+    let format: string;
+    let keyId: string | undefined;
+    let payload: unknown;
+    if (parts.length === 2) {
+        format = 'helix';
+        const separatorIndex = parts[1].indexOf('~');
+        keyId = separatorIndex === -1 ? undefined : parts[1].slice(0, separatorIndex);
+        payload = decodeSegment(parts[0]);
+    } else if (isJwt) {
+        format = 'jwt';
+        keyId = typeof header.kid === 'string' ? header.kid : undefined;
+        payload = decodeSegment(parts[1]);
+    } else if (parts.length === 3) {
+        format = 'encrypted';
+        const separatorIndex = parts[0].indexOf('~');
+        keyId = separatorIndex === -1 ? undefined : parts[0].slice(0, separatorIndex);
+    } else {
+        throw new HelixError('Invalid token format');
+    }
+
+    // Check the signature and claims separately: claim errors imply a valid signature
+    const helix = helixFromArgs(args, keyId);
+    let signature = 'not checked (no secret supplied)';
+    let claimStatus: string | undefined;
+    if (helix) {
+        try {
+            payload = format === 'encrypted' ? helix.decryptToken(token) : helix.verifyToken(token);
+            signature = 'valid';
+            claimStatus = 'valid';
+        } catch (err) {
+            if (err instanceof HelixClaimError) {
+                signature = 'valid';
+                claimStatus = err.message;
+            } else {
+                signature = `invalid (${err instanceof Error ? err.message : String(err)})`;
+            }
+        }
+    } else if (format === 'encrypted') {
+        signature = 'not checked (encrypted, supply a secret to decrypt)';
+    }
+
+    const claims: CliOutput = {};
+    if (payload !== null && typeof payload === 'object' && !Array.isArray(payload)) {
+        const record = payload as Record<string, unknown>;
+        for (const name of ['iat', 'nbf', 'exp']) {
+            if (typeof record[name] === 'number') claims[name] = describeTime(record[name] as number);
+        }
+        for (const name of ['iss', 'sub', 'aud', 'jti', 'ver']) {
+            if (record[name] !== undefined) claims[name] = record[name];
+        }
+    }
+
+    return {
+        format,
+        ...(keyId !== undefined && { keyId }),
+        ...(isJwt && { header }),
+        ...(payload !== undefined && { payload }),
+        claims,
+        signature,
+        ...(claimStatus !== undefined && { claimStatus })
+    };
+}
+
+/**
+ * Prints command output as `key: value` lines
+ * @param output The command output
+ */
+function printHuman(output: CliOutput): void {
+    const width = Math.max(...Object.keys(output).map(key => key.length));
+    for (const [key, value] of Object.entries(output)) {
+        if (Array.isArray(value) && value.every(item => typeof item !== 'object')) {
+            // Lists of IDs print one per line so they can be piped
+            console.log(value.join('\n'));
+        } else if (value !== null && typeof value === 'object') {
+            const json = JSON.stringify(value, null, 2).replace(/\n/g, '\n  ');
+            console.log(`${key.padEnd(width)}: ${json}`);
+        } else {
+            console.log(`${key.padEnd(width)}: ${value}`);
+        }
+    }
+}
+
+/**
+ * Entry point of the `helix` command
+ * @param argv Arguments without the node executable and script path
+ * @returns The process exit code
+ */
+function main(argv: string[]): number {
+    const args = parseArgs(argv);
+    const command = args.positionals.shift();
+
+    if (!command || args.flags.help) {
+        console.log(USAGE);
+        return command || args.flags.help ? 0 : 1;
+    }
+
+    const commands: Record<string, (args: CliArgs) => CliOutput> = {
+        'decode-id': decodeIdCommand,
+        'generate-id': generateIdCommand,
+        'id-range': idRangeCommand,
+        'sign-token': signTokenCommand,
+        'inspect-token': inspectTokenCommand
+    };
+
+    const run = commands[command];
+    if (!run) {
+        console.error(`Unknown command: ${command}\n\n${USAGE}`);
+        return 1;
+    }
+
+    try {
+        const output = run(args);
+        if (args.flags.json) {
+            console.log(JSON.stringify(output, null, 2));
+        } else {
+            printHuman(output);
+        }
+        return 0;
+    } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+        return 1;
+    }
+}
+
+process.exitCode = main(process.argv.slice(2));
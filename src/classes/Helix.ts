@@ -1,14 +1,181 @@
 import os from 'os';
 import crypto from 'crypto';
+import { HelixKey, HelixJwks } from './HelixKey';
+import { HelixRevocationStore } from './HelixRevocationStore';
+import { HelixWorkerLease, HelixWorkerLeaseProvider } from './HelixWorkerLease';
+import { HelixSchema, HelixMigration } from './HelixSchema';
+import { HelixError, HelixClaimError, HelixTokenExpiredError, HelixTokenNotActiveError, HelixTokenAudienceError, HelixTokenRevokedError, HelixValidationError } from './HelixError';
+
+export * from './HelixError';
 
 /**
- * Custom error class for Helix-specific errors
+ * Registered claims Helix adds to token payloads.
+ * Times are NumericDate values (seconds since the Unix epoch).
  */
-export class HelixError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'HelixError';
-    }
+export interface HelixTokenClaims {
+    iat?: number;
+    exp?: number;
+    nbf?: number;
+    aud?: string | string[];
+    iss?: string;
+    sub?: string;
+    jti?: string;
+    /** Payload schema version */
+    ver?: number;
+}
+
+/**
+ * A set of named signing keys.
+ * The active key signs new tokens; every other key is retired and only verifies.
+ */
+export interface HelixKeyring {
+    /** HMAC secrets or {@link HelixKey}s indexed by key ID (letters, digits, `_` and `-`) */
+    keys: Record<string, string | HelixKey>;
+    /** ID of the key used to sign new tokens, omit for verification-only instances */
+    activeKeyId?: string;
+}
+
+/**
+ * Bit layout and epoch of Snowflake IDs
+ * The three bit fields must add up to 63 or 64 bits.
+ */
+export interface HelixIdLayout {
+    /** Custom epoch in milliseconds since the Unix epoch */
+    epoch: number;
+    timestampBits: number;
+    workerIdBits: number;
+    sequenceBits: number;
+}
+
+/**
+ * A validated layout with derived shifts and limits
+ */
+interface ResolvedIdLayout extends HelixIdLayout {
+    maxWorkerId: number;
+    maxSequence: number;
+    timestampShift: number;
+    workerIdShift: number;
+}
+
+/**
+ * String encodings for Snowflake IDs
+ * - decimal: variable-length base 10 (default)
+ * - base62: 11 characters from 0-9A-Za-z, sorts like the numeric ID
+ * - base32: 13 Crockford base32 characters, case-insensitive, sorts like the numeric ID
+ * - base64url: 11 characters of the big-endian bytes, shortest URL-safe form but not sortable
+ */
+export type HelixIdEncoding = 'decimal' | 'base62' | 'base32' | 'base64url';
+
+/**
+ * Policies for handling a system clock that moves backwards (e.g. NTP adjustments)
+ * - throw: raise a HelixError (default)
+ * - wait: spin until the clock catches up, up to `maxClockWait` milliseconds
+ * - logical: keep issuing IDs from the last timestamp, borrowing sequence space
+ */
+export type HelixClockRegressionPolicy = 'throw' | 'wait' | 'logical';
+
+/**
+ * Counters describing ID generation health
+ */
+export interface HelixIdStats {
+    /** Number of times the clock was observed moving backwards */
+    clockRegressions: number;
+    /** Largest observed backwards jump in milliseconds */
+    maxClockRegression: number;
+    /** Number of times the per-millisecond sequence overflowed */
+    sequenceExhaustions: number;
+}
+
+/**
+ * Token formats produced by {@link Helix.generateToken}
+ * - helix: <base64url(data)>.[<kid>~]<signature>
+ * - jwt: RFC 7519 JSON Web Token (<header>.<payload>.<signature>)
+ */
+export type HelixTokenFormat = 'helix' | 'jwt';
+
+/**
+ * Options for the {@link Helix} constructor
+ */
+export interface HelixOptions {
+    /** Manual worker ID override (0-1023 with the default layout) */
+    workerId?: number;
+    /** Snowflake epoch and bit allocation, merged over {@link Helix.DEFAULT_LAYOUT} */
+    layout?: Partial<Omit<HelixIdLayout, 'epoch'>> & { epoch?: number | Date };
+    /** What to do when the system clock moves backwards, defaults to `throw` */
+    clockRegression?: HelixClockRegressionPolicy;
+    /** Longest regression in milliseconds the `wait` policy waits out before throwing (default 1000) */
+    maxClockWait?: number;
+    /** Encoding of generated IDs, defaults to `decimal` */
+    idEncoding?: HelixIdEncoding;
+    /** Secret for signing tokens without a key ID */
+    tokenSecret?: string;
+    /** Named keys for signing tokens with a key ID, takes precedence over `tokenSecret` */
+    keyring?: HelixKeyring;
+    /** Default clock skew in seconds allowed when checking `exp`/`nbf` */
+    clockTolerance?: number;
+    /** Format of newly generated tokens, defaults to `helix`; both formats always verify */
+    tokenFormat?: HelixTokenFormat;
+    /** Store consulted to reject revoked or already-consumed token IDs */
+    revocationStore?: HelixRevocationStore;
+}
+
+/**
+ * Options for {@link Helix.generateToken}
+ */
+export interface HelixTokenOptions {
+    /** Lifetime of the token in seconds */
+    expiresIn?: number;
+    /** Delay in seconds before the token becomes valid */
+    notBefore?: number;
+    audience?: string | string[];
+    issuer?: string;
+    subject?: string;
+    /** Unique token ID; `true` generates a Helix Snowflake ID */
+    jwtId?: string | boolean;
+    /** Payload schema version, stored in the `ver` claim */
+    version?: number;
+}
+
+/**
+ * Options for {@link Helix.verifyToken}
+ */
+export interface HelixVerifyOptions<T = unknown> {
+    /** Accepted audience(s); the token must name at least one of them */
+    audience?: string | string[];
+    issuer?: string;
+    subject?: string;
+    /** Allowed clock skew in seconds, overrides the instance default */
+    clockTolerance?: number;
+    /** Marks the token's `jti` as used so it cannot be verified again (requires a revocation store) */
+    consume?: boolean;
+    /** Validates and narrows the payload after claims and migrations have been applied */
+    schema?: HelixSchema<T>;
+    /** Current payload version; older payloads are upgraded with `migrations` */
+    version?: number;
+    /** Migrations keyed by the version they upgrade from; payloads without `ver` are version 1 */
+    migrations?: Record<number, HelixMigration>;
+}
+
+/**
+ * Options for {@link Helix.signUrl}
+ */
+export interface HelixSignUrlOptions {
+    /** Lifetime of the signed URL in seconds */
+    expiresIn: number;
+    /** HTTP method the URL may be used with, defaults to `GET` */
+    method?: string;
+    /** Signs every path under this prefix instead of the exact path */
+    pathPrefix?: string;
+}
+
+/**
+ * Options for {@link Helix.verifyUrl}
+ */
+export interface HelixVerifyUrlOptions {
+    /** HTTP method of the incoming request, defaults to `GET` */
+    method?: string;
+    /** Allowed clock skew in seconds, overrides the instance default */
+    clockTolerance?: number;
 }
 
 /**
@@ -18,106 +185,356 @@ export class HelixError extends Error {
  * - Generates unique, sortable, distributed IDs (Snowflake format)
  * - Creates secure, verifiable tokens with embedded JSON data
  * - Simple two-part token format: <base64url(data)>.<hmac_signature>
+ * - Key rotation and Ed25519 / ES256 signing via a keyring: <base64url(data)>.<kid>~<signature>
+ * - Optional JWT output (HS256 / EdDSA / ES256) for interoperability
+ * - Encrypted tokens (AES-256-GCM) for confidential payloads
+ * - Token revocation and single-use tokens via a pluggable revocation store
+ * - Time-limited signed URLs, optionally valid for a whole path prefix
  *
- * ID Structure (64 bits):
+ * Default ID Structure (64 bits, configurable via the `layout` option):
  * - 42 bits: Timestamp (milliseconds since custom epoch)
  * - 10 bits: Worker/Instance ID (supports up to 1024 instances)
  * - 12 bits: Sequence number (up to 4096 IDs per millisecond)
  */
 export class Helix {
-    // Custom epoch (2015-01-01T00:00:00.000Z)
-    private static readonly EPOCH = 1420070400000;
+    // Custom epoch (2015-01-01T00:00:00.000Z) with a 42/10/12 bit split
+    public static readonly DEFAULT_LAYOUT: Readonly<HelixIdLayout> = Object.freeze({
+        epoch: 1420070400000,
+        timestampBits: 42,
+        workerIdBits: 10,
+        sequenceBits: 12
+    });
 
-    // Bit allocation
-    private static readonly TIMESTAMP_BITS = 42;
-    private static readonly WORKER_ID_BITS = 10;
-    private static readonly SEQUENCE_BITS = 12;
+    // Discord: same epoch and split as the default (worker + process IDs share the 10 worker bits)
+    public static readonly DISCORD_LAYOUT: Readonly<HelixIdLayout> = Helix.DEFAULT_LAYOUT;
 
-    // Derived constants
-    private static readonly MAX_WORKER_ID = (1 << Helix.WORKER_ID_BITS) - 1;
-    private static readonly MAX_SEQUENCE = (1 << Helix.SEQUENCE_BITS) - 1;
-    private static readonly TIMESTAMP_SHIFT = Helix.WORKER_ID_BITS + Helix.SEQUENCE_BITS;
-    private static readonly WORKER_ID_SHIFT = Helix.SEQUENCE_BITS;
+    // Twitter: 2010-11-04T01:42:54.657Z epoch with a 41/10/12 bit split (63 bits)
+    public static readonly TWITTER_LAYOUT: Readonly<HelixIdLayout> = Object.freeze({
+        epoch: 1288834974657,
+        timestampBits: 41,
+        workerIdBits: 10,
+        sequenceBits: 12
+    });
 
+    // Key IDs are prefixed to the signature as <kid>~<signature>
+    private static readonly KEY_ID_SEPARATOR = '~';
+    private static readonly KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+    // Query parameters appended to signed URLs, in the order they are added
+    private static readonly URL_PARAMS = { expires: 'expires', keyId: 'kid', prefix: 'prefix', signature: 'signature' } as const;
+
+    // Returned by reserveTimestamp when the caller has to wait until resumeAt
+    private static readonly RETRY = -1;
+
+    // ID encodings; base62 and base32 alphabets are in ASCII order so fixed-width strings sort numerically
+    private static readonly BASE62_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+    private static readonly BASE32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+    private static readonly BASE62_LENGTH = 11;
+    private static readonly BASE32_LENGTH = 13;
+    private static readonly MAX_ID = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+    private readonly layout: ResolvedIdLayout;
     private readonly workerId: number;
+    private lease?: HelixWorkerLease;
     private sequence: number;
     private lastTimestamp: number;
-    private readonly tokenSecret: string;
+    private lastWallClock: number;
+    private resumeAt: number;
+    private readonly tokenKey?: HelixKey;
+    private readonly keys: Map<string, HelixKey>;
+    private activeKeyId?: string;
+    private readonly clockTolerance: number;
+    private readonly tokenFormat: HelixTokenFormat;
+    private readonly revocationStore?: HelixRevocationStore;
     private readonly timestampMask: bigint;
     private readonly workerIdMask: bigint;
     private readonly sequenceMask: bigint;
     private readonly workerIdShifted: bigint;
-    private lastTimeHigh: number;
-    private lastTimeLow: number;
+    private readonly idEncoding: HelixIdEncoding;
+    private readonly clockRegression: HelixClockRegressionPolicy;
+    private readonly maxClockWait: number;
+    private readonly stats: HelixIdStats;
 
     /**
      * Creates a new Helix instance
      * @param options Configuration options for Helix
-     * @param options.workerId Optional manual worker ID override (0-1023)
+     * @param options.workerId Optional manual worker ID override (0-1023 with the default layout)
+     * @param options.layout Snowflake epoch and bit allocation
+     * @param options.clockRegression What to do when the system clock moves backwards
+     * @param options.maxClockWait Longest clock regression in milliseconds the `wait` policy waits out
+     * @param options.idEncoding Encoding of generated IDs
      * @param options.tokenSecret Secret key for token signing (required for token operations)
-     * @throws {HelixError} If worker ID exceeds maximum allowed value
+     * @param options.keyring Named keys for key rotation and asymmetric signing
+     * @param options.clockTolerance Default clock skew in seconds allowed when checking `exp`/`nbf`
+     * @param options.tokenFormat Format of newly generated tokens (`helix` or `jwt`)
+     * @param options.revocationStore Store for revoked and consumed token IDs
+     * @throws {HelixError} If worker ID exceeds maximum allowed value, the layout or the keyring is invalid
      */
-    constructor(options: { workerId?: number; tokenSecret?: string } = {}) {
+    constructor(options: HelixOptions = {}) {
+        this.layout = Helix.resolveLayout(options.layout ?? {});
         this.sequence = 0;
         this.lastTimestamp = -1;
-        this.lastTimeHigh = 0;
-        this.lastTimeLow = 0;
-        this.tokenSecret = options.tokenSecret || '';
+        this.lastWallClock = -1;
+        this.resumeAt = -1;
+        this.idEncoding = options.idEncoding ?? 'decimal';
+        this.clockRegression = options.clockRegression ?? 'throw';
+        this.maxClockWait = options.maxClockWait ?? 1000;
+        this.stats = { clockRegressions: 0, maxClockRegression: 0, sequenceExhaustions: 0 };
+        this.tokenKey = options.tokenSecret ? HelixKey.fromSecret(options.tokenSecret) : undefined;
+        this.keys = new Map();
+        this.clockTolerance = options.clockTolerance ?? 0;
+        this.tokenFormat = options.tokenFormat ?? 'helix';
+        this.revocationStore = options.revocationStore;
+
+        if (options.keyring) {
+            for (const [keyId, key] of Object.entries(options.keyring.keys)) {
+                this.addKey(keyId, key);
+            }
+            if (options.keyring.activeKeyId !== undefined) {
+                this.setActiveKey(options.keyring.activeKeyId);
+            }
+        }
 
         // Initialize worker ID
         this.workerId = options.workerId ?? this.generateWorkerId();
 
         // Pre-calculate masks and shifts for faster bit operations
-        this.timestampMask = (BigInt(1) << BigInt(Helix.TIMESTAMP_BITS)) - BigInt(1);
-        this.workerIdMask = (BigInt(1) << BigInt(Helix.WORKER_ID_BITS)) - BigInt(1);
-        this.sequenceMask = (BigInt(1) << BigInt(Helix.SEQUENCE_BITS)) - BigInt(1);
-        this.workerIdShifted = BigInt(this.workerId) << BigInt(Helix.WORKER_ID_SHIFT);
+        this.timestampMask = (BigInt(1) << BigInt(this.layout.timestampBits)) - BigInt(1);
+        this.workerIdMask = (BigInt(1) << BigInt(this.layout.workerIdBits)) - BigInt(1);
+        this.sequenceMask = (BigInt(1) << BigInt(this.layout.sequenceBits)) - BigInt(1);
+        this.workerIdShifted = BigInt(this.workerId) << BigInt(this.layout.workerIdShift);
 
-        if (this.workerId > Helix.MAX_WORKER_ID) {
+        if (this.workerId > this.layout.maxWorkerId) {
             throw new HelixError(
-                `Worker ID ${this.workerId} exceeds maximum allowed value ${Helix.MAX_WORKER_ID}`
+                `Worker ID ${this.workerId} exceeds maximum allowed value ${this.layout.maxWorkerId}`
             );
         }
     }
 
+    /**
+     * Creates a Helix instance whose worker ID is leased from a provider
+     * Leased worker IDs are never shared by two live processes, unlike the default
+     * hostname/PID hash. If the lease is lost, ID generation throws instead of producing
+     * IDs that may collide. Call {@link Helix.close} on shutdown to free the worker ID.
+     * @param options Configuration options for Helix; `workerId` is ignored
+     * @param options.leaseProvider Provider to lease the worker ID from
+     * @returns A promise resolving to the new instance
+     * @throws {HelixError} If every worker ID is leased or the options are invalid
+     */
+    public static async create(options: HelixOptions & { leaseProvider: HelixWorkerLeaseProvider }): Promise<Helix> {
+        const { leaseProvider, ...helixOptions } = options;
+        const layout = Helix.resolveLayout(helixOptions.layout ?? {});
+        const lease = await leaseProvider.acquire(layout.maxWorkerId + 1);
+
+        try {
+            const helix = new Helix({ ...helixOptions, workerId: lease.workerId });
+            helix.lease = lease;
+            return helix;
+        } catch (err) {
+            await lease.release();
+            throw err;
+        }
+    }
+
+    /**
+     * Releases the leased worker ID, if any; the instance must not generate IDs afterwards
+     */
+    public async close(): Promise<void> {
+        const lease = this.lease;
+        this.lease = undefined;
+        await lease?.release();
+    }
+
     /**
      * Generates a unique 64-bit ID in Snowflake format
+     * Spins briefly if the sequence for the current millisecond is exhausted; use
+     * {@link Helix.nextId} to yield to the event loop instead.
      * @returns A string representation of the generated ID
+     * @throws {HelixError} If the clock moved backwards and the regression policy cannot recover,
+     * or the worker ID lease was lost
      */
     public generateId(): string {
-        // Get timestamp using Date.now()
+        let timestamp = this.reserveTimestamp();
+        while (timestamp === Helix.RETRY) {
+            this.spinUntil(this.resumeAt);
+            timestamp = this.reserveTimestamp();
+        }
+        return this.generateIdWithTimestamp(timestamp);
+    }
+
+    /**
+     * Generates a batch of unique IDs
+     * Computes the timestamp part once per millisecond instead of once per ID.
+     * @param count The number of IDs to generate
+     * @returns The generated IDs in ascending order
+     * @throws {HelixError} If count is invalid, the clock moved backwards and cannot recover,
+     * or the worker ID lease was lost
+     */
+    public generateIds(count: number): string[] {
+        Helix.assertCount(count);
+        const ids: string[] = [];
+        while (this.takeIds(ids, count) < count) {
+            this.spinUntil(this.resumeAt);
+        }
+        return ids;
+    }
+
+    /**
+     * Generates a unique ID, waiting on a timer instead of spinning when the sequence is exhausted
+     * @returns A promise resolving to the generated ID
+     * @throws {HelixError} If the clock moved backwards and the regression policy cannot recover,
+     * or the worker ID lease was lost
+     */
+    public async nextId(): Promise<string> {
+        let timestamp = this.reserveTimestamp();
+        while (timestamp === Helix.RETRY) {
+            await this.sleepUntil(this.resumeAt);
+            timestamp = this.reserveTimestamp();
+        }
+        return this.generateIdWithTimestamp(timestamp);
+    }
+
+    /**
+     * Generates a batch of unique IDs, yielding to the event loop whenever the sequence is exhausted
+     * @param count The number of IDs to generate
+     * @returns A promise resolving to the generated IDs in ascending order
+     * @throws {HelixError} If count is invalid, the clock moved backwards and cannot recover,
+     * or the worker ID lease was lost
+     */
+    public async nextIds(count: number): Promise<string[]> {
+        Helix.assertCount(count);
+        const ids: string[] = [];
+        while (this.takeIds(ids, count) < count) {
+            await this.sleepUntil(this.resumeAt);
+        }
+        return ids;
+    }
+
+    /**
+     * Counters for clock regressions and sequence exhaustion since this instance was created
+     * @returns A snapshot of the counters
+     */
+    public getStats(): HelixIdStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * Appends IDs to a batch until it is full or the current millisecond runs out
+     * @param ids The batch to fill
+     * @param count The target batch size
+     * @returns The new batch size
+     */
+    private takeIds(ids: string[], count: number): number {
+        let baseTimestamp = -1;
+        let base = BigInt(0);
+
+        while (ids.length < count) {
+            const timestamp = this.reserveTimestamp();
+            if (timestamp === Helix.RETRY) break;
+
+            if (timestamp !== baseTimestamp) {
+                base = this.idBase(timestamp);
+                baseTimestamp = timestamp;
+            }
+            ids.push(this.formatId(base | BigInt(this.sequence)));
+        }
+        return ids.length;
+    }
+
+    /**
+     * Claims the next timestamp/sequence pair, applying the clock regression policy
+     * @returns The timestamp to use with `this.sequence`, or RETRY if the caller must
+     * wait until `this.resumeAt` (sequence exhausted or `wait` policy)
+     * @throws {HelixError} If the policy is `throw`, `wait` would exceed the maximum wait,
+     * or the worker ID lease was lost
+     */
+    private reserveTimestamp(): number {
+        // Another process may be generating IDs with this worker ID now
+        const lostError = this.lease?.lostError;
+        if (lostError) {
+            throw new HelixError(`Cannot generate IDs: ${lostError.message}`);
+        }
+
         const now = Date.now();
-        const timestamp = Math.floor(now);
 
-        // Split timestamp into high and low parts for faster comparison
-        const timeHigh = Math.floor(timestamp / 1000);
-        const timeLow = timestamp % 1000;
+        // Count each backwards jump of the wall clock once, even while a logical clock runs ahead
+        if (now < this.lastWallClock) {
+            this.stats.clockRegressions++;
+            this.stats.maxClockRegression = Math.max(this.stats.maxClockRegression, this.lastWallClock - now);
+        }
+        this.lastWallClock = now;
 
-        if (timeHigh < this.lastTimeHigh || (timeHigh === this.lastTimeHigh && timeLow < this.lastTimeLow)) {
-            throw new HelixError(
-                `Clock moved backwards by ${(this.lastTimeHigh * 1000 + this.lastTimeLow) - (timeHigh * 1000 + timeLow)}ms`
-            );
+        let timestamp = now;
+        if (timestamp < this.lastTimestamp) {
+            const drift = this.lastTimestamp - timestamp;
+            switch (this.clockRegression) {
+                case 'logical':
+                    timestamp = this.lastTimestamp;
+                    break;
+                case 'wait':
+                    if (drift > this.maxClockWait) {
+                        throw new HelixError(
+                            `Clock moved backwards by ${drift}ms, exceeding the maximum wait of ${this.maxClockWait}ms`
+                        );
+                    }
+                    this.resumeAt = this.lastTimestamp;
+                    return Helix.RETRY;
+                default:
+                    throw new HelixError(`Clock moved backwards by ${drift}ms`);
+            }
         }
 
-        if (timeHigh === this.lastTimeHigh && timeLow === this.lastTimeLow) {
-            this.sequence = (this.sequence + 1) & Helix.MAX_SEQUENCE;
-            if (this.sequence === 0) {
-                // Use a more efficient wait mechanism
-                let nextTime = Date.now();
-                while (nextTime <= now) {
-                    nextTime = Date.now();
-                }
-                this.lastTimeHigh = Math.floor(nextTime / 1000);
-                this.lastTimeLow = nextTime % 1000;
-                return this.generateIdWithTimestamp(Math.floor(nextTime));
+        if (timestamp === this.lastTimestamp) {
+            if (this.sequence < this.layout.maxSequence) {
+                this.sequence++;
+                return timestamp;
             }
-        } else {
-            this.sequence = 0;
+
+            // Count an exhausted millisecond once, however often the caller retries
+            if (this.resumeAt !== this.lastTimestamp + 1) {
+                this.stats.sequenceExhaustions++;
+            }
+            this.resumeAt = this.lastTimestamp + 1;
+
+            // A logical clock running ahead of the wall clock borrows the next millisecond
+            if (this.clockRegression !== 'logical' || now >= this.lastTimestamp) {
+                return Helix.RETRY;
+            }
+            timestamp = this.lastTimestamp + 1;
         }
 
-        this.lastTimeHigh = timeHigh;
-        this.lastTimeLow = timeLow;
-        return this.generateIdWithTimestamp(timestamp);
+        this.sequence = 0;
+        this.lastTimestamp = timestamp;
+        return timestamp;
+    }
+
+    /**
+     * Spins until the clock reaches the given timestamp
+     * @param timestamp The timestamp to wait for
+     */
+    private spinUntil(timestamp: number): void {
+        while (Date.now() < timestamp) {
+            // Busy-wait; sequence exhaustion lasts less than a millisecond
+        }
+    }
+
+    /**
+     * Waits on a timer until the clock reaches the given timestamp
+     * @param timestamp The timestamp to wait for
+     */
+    private sleepUntil(timestamp: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, Math.max(0, timestamp - Date.now())));
+    }
+
+    /**
+     * Validates a batch size
+     * @param count The requested number of IDs
+     * @throws {HelixError} If count is not a non-negative safe integer
+     */
+    private static assertCount(count: number): void {
+        if (!Number.isSafeInteger(count) || count < 0) {
+            throw new HelixError(`Invalid ID count: ${count}`);
+        }
     }
 
     /**
@@ -126,32 +543,61 @@ export class Helix {
      * @returns A string representation of the generated ID
      */
     private generateIdWithTimestamp(timestamp: number): string {
-        // Pre-calculate timestamp offset and use cached workerId shift
-        const timestampOffset = BigInt(timestamp - Helix.EPOCH);
-        const id = (timestampOffset & this.timestampMask) << BigInt(Helix.TIMESTAMP_SHIFT) |
-                  this.workerIdShifted |
-                  (BigInt(this.sequence) & this.sequenceMask);
+        return this.formatId(this.idBase(timestamp) | (BigInt(this.sequence) & this.sequenceMask));
+    }
 
-        return id.toString();
+    /**
+     * Converts an ID to this instance's encoding
+     * @param id The numeric ID
+     * @returns The encoded ID
+     */
+    private formatId(id: bigint): string {
+        return this.idEncoding === 'decimal' ? id.toString() : Helix.encodeId(id, this.idEncoding);
+    }
+
+    /**
+     * Computes the timestamp and worker ID bits of an ID
+     * @param timestamp The timestamp to use
+     * @returns The ID without its sequence bits
+     * @throws {HelixError} If the timestamp is before the epoch
+     */
+    private idBase(timestamp: number): bigint {
+        if (timestamp < this.layout.epoch) {
+            throw new HelixError(`Timestamp ${timestamp} is before the configured epoch ${this.layout.epoch}`);
+        }
+
+        // Pre-calculate timestamp offset and use cached workerId shift
+        const timestampOffset = BigInt(timestamp - this.layout.epoch);
+        return (timestampOffset & this.timestampMask) << BigInt(this.layout.timestampShift) | this.workerIdShifted;
     }
 
     /**
      * Creates a secure token containing JSON data
      * @param data The data to embed in the token
-     * @returns A secure token string in the format: base64url(data).signature
-     * @throws {HelixError} If token secret is not configured
+     * @param options Registered claims to add to the payload (requires object data)
+     * @returns A secure token string in the format: base64url(data).signature, or a JWT in `jwt` mode
+     * @throws {HelixError} If token secret is not configured or claims cannot be added
      */
-    public generateToken(data: unknown): string {
-        if (!this.tokenSecret) {
-            throw new HelixError('Token secret not configured');
+    public generateToken(data: unknown, options?: HelixTokenOptions): string {
+        const { key, keyId } = this.resolveSigningKey();
+
+        const body = options ? this.applyClaims(data, options) : data;
+
+        if (this.tokenFormat === 'jwt') {
+            return this.generateJwt(body, key, keyId);
         }
 
         // Convert data to JSON string and encode as base64url
-        const jsonData = JSON.stringify(data);
+        const jsonData = JSON.stringify(body);
         const payload = Buffer.from(jsonData).toString('base64url');
 
-        // Generate HMAC signature
-        const signature = this.signPayload(payload);
+        // Generate signature, binding the key ID when one is used
+        if (keyId !== undefined) {
+            const signature = key.sign(`${payload}.${keyId}`);
+            return `${payload}.${keyId}${Helix.KEY_ID_SEPARATOR}${signature}`;
+        }
+
+        const signature = key.sign(payload);
 
         return `${payload}.${signature}`;
     }
@@ -159,54 +605,769 @@ export class Helix {
     /**
      * Verifies and decodes a token
      * @param token The token string to verify and decode
+     * @param options Expected claim values and clock skew tolerance
      * @returns The decoded data from the token
      * @throws {HelixError} If token is invalid or signature verification fails
+     * @throws {HelixClaimError} If the token is expired, not yet valid or has unexpected claims
+     * @throws {HelixValidationError} If the payload cannot be migrated or does not match the schema
+     */
+    public verifyToken<T = unknown>(token: string, options: HelixVerifyOptions<T> = {}): T {
+        return this.finalizePayload(this.decodeToken(token), options);
+    }
+
+    /**
+     * Verifies and decodes a token, awaiting an asynchronous revocation store
+     * @param token The token string to verify and decode
+     * @param options Expected claim values and clock skew tolerance
+     * @returns The decoded data from the token
+     * @throws {HelixError} If token is invalid or signature verification fails
+     * @throws {HelixClaimError} If the token is expired, not yet valid or has unexpected claims
+     * @throws {HelixValidationError} If the payload cannot be migrated or does not match the schema
+     */
+    public async verifyTokenAsync<T = unknown>(token: string, options: HelixVerifyOptions<T> = {}): Promise<T> {
+        return this.finalizePayloadAsync(this.decodeToken(token), options);
+    }
+
+    /**
+     * Checks the signature of a signed token and decodes its payload
+     * @param token The Helix token or JWT
+     * @returns The decoded payload, before claim validation
+     * @throws {HelixError} If the token is malformed or the signature is invalid
      */
-    public verifyToken<T = unknown>(token: string): T {
-        if (!this.tokenSecret) {
+    private decodeToken(token: string): unknown {
+        if (!this.tokenKey && this.keys.size === 0) {
             throw new HelixError('Token secret not configured');
         }
 
         const parts = token.split('.');
-        if (parts.length !== 2) {
+        let payload: string;
+        if (parts.length === 2) {
+            payload = this.verifyHelixSignature(parts[0], parts[1]);
+        } else if (parts.length === 3) {
+            payload = this.verifyJwtSignature(parts[0], parts[1], parts[2]);
+        } else {
             throw new HelixError('Invalid token format');
         }
 
-        const [payload, signature] = parts;
+        let data: unknown;
+        try {
+            // Decode payload
+            const jsonData = Buffer.from(payload, 'base64url').toString();
+            data = JSON.parse(jsonData);
+        } catch (err) {
+            throw new HelixError('Failed to decode token payload');
+        }
+
+        return data;
+    }
+
+    /**
+     * Creates an encrypted token whose contents cannot be read without the secret
+     * Uses AES-256-GCM with a key derived from the active HMAC keyring secret or the token secret.
+     * @param data The data to embed in the token
+     * @param options Registered claims to add to the payload (requires object data)
+     * @returns An encrypted token in the format: [<kid>~]iv.ciphertext.tag
+     * @throws {HelixError} If no HMAC secret is configured or claims cannot be added
+     */
+    public encryptToken(data: unknown, options?: HelixTokenOptions): string {
+        const activeKey = this.activeKeyId !== undefined ? this.keys.get(this.activeKeyId) : undefined;
+        const keyId = activeKey?.canEncrypt ? this.activeKeyId : undefined;
+        const key = keyId !== undefined ? activeKey : this.tokenKey;
+        if (!key) {
+            throw new HelixError('Token encryption requires an HMAC secret');
+        }
 
-        // Verify signature
-        const expectedSignature = this.signPayload(payload);
-        if (!crypto.timingSafeEqual(
-            Buffer.from(signature),
-            Buffer.from(expectedSignature)
-        )) {
+        const body = options ? this.applyClaims(data, options) : data;
+        const sealed = key.encrypt(JSON.stringify(body), keyId ?? '');
+
+        return keyId !== undefined ? `${keyId}${Helix.KEY_ID_SEPARATOR}${sealed}` : sealed;
+    }
+
+    /**
+     * Decrypts and decodes a token created by {@link Helix.encryptToken}
+     * Any tampering, unknown key or malformed input fails closed with a HelixError.
+     * @param token The encrypted token
+     * @param options Expected claim values and clock skew tolerance
+     * @returns The decrypted data from the token
+     * @throws {HelixError} If the token cannot be decrypted
+     * @throws {HelixClaimError} If the token is expired, not yet valid or has unexpected claims
+     * @throws {HelixValidationError} If the payload cannot be migrated or does not match the schema
+     */
+    public decryptToken<T = unknown>(token: string, options: HelixVerifyOptions<T> = {}): T {
+        return this.finalizePayload(this.decryptPayload(token), options);
+    }
+
+    /**
+     * Decrypts and decodes a token, awaiting an asynchronous revocation store
+     * @param token The encrypted token
+     * @param options Expected claim values and clock skew tolerance
+     * @returns The decrypted data from the token
+     * @throws {HelixError} If the token cannot be decrypted
+     * @throws {HelixClaimError} If the token is expired, not yet valid or has unexpected claims
+     * @throws {HelixValidationError} If the payload cannot be migrated or does not match the schema
+     */
+    public async decryptTokenAsync<T = unknown>(token: string, options: HelixVerifyOptions<T> = {}): Promise<T> {
+        return this.finalizePayloadAsync(this.decryptPayload(token), options);
+    }
+
+    /**
+     * Decrypts an encrypted token
+     * @param token The encrypted token
+     * @returns The decrypted payload, before claim validation
+     * @throws {HelixError} If the token cannot be decrypted
+     */
+    private decryptPayload(token: string): unknown {
+        const separatorIndex = token.indexOf(Helix.KEY_ID_SEPARATOR);
+        const keyId = separatorIndex === -1 ? undefined : token.slice(0, separatorIndex);
+        const sealed = separatorIndex === -1 ? token : token.slice(separatorIndex + 1);
+
+        if (sealed.split('.').length !== 3) {
+            throw new HelixError('Invalid token format');
+        }
+
+        const key = this.resolveVerificationKey(keyId);
+        if (!key.canEncrypt) {
+            throw new HelixError('Token encryption requires an HMAC secret');
+        }
+
+        let data: unknown;
+        try {
+            data = JSON.parse(key.decrypt(sealed, keyId ?? ''));
+        } catch (err) {
+            throw new HelixError('Failed to decrypt token');
+        }
+
+        return data;
+    }
+
+    /**
+     * Encodes and signs a payload as a JWT
+     * @param body The claims set
+     * @param key The signing key
+     * @param keyId The key ID to put in the `kid` header
+     * @returns The compact JWT
+     * @throws {HelixError} If the payload is not an object
+     */
+    private generateJwt(body: unknown, key: HelixKey, keyId?: string): string {
+        if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+            throw new HelixError('JWT payload must be an object');
+        }
+
+        const header = { alg: key.algorithm, typ: 'JWT', ...(keyId !== undefined && { kid: keyId }) };
+        const encodedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
+        const payload = Buffer.from(JSON.stringify(body)).toString('base64url');
+        const signature = key.sign(`${encodedHeader}.${payload}`);
+
+        return `${encodedHeader}.${payload}.${signature}`;
+    }
+
+    /**
+     * Verifies the signature of a two-part Helix token
+     * @param payload The encoded payload
+     * @param signed The signature, optionally prefixed with a key ID
+     * @returns The verified encoded payload
+     * @throws {HelixError} If the key is unknown or the signature is invalid
+     */
+    private verifyHelixSignature(payload: string, signed: string): string {
+        // Split off the key ID if the token carries one
+        const separatorIndex = signed.indexOf(Helix.KEY_ID_SEPARATOR);
+        const keyId = separatorIndex === -1 ? undefined : signed.slice(0, separatorIndex);
+        const signature = separatorIndex === -1 ? signed : signed.slice(separatorIndex + 1);
+
+        const key = this.resolveVerificationKey(keyId);
+        const valid = keyId !== undefined
+            ? key.verify(`${payload}.${keyId}`, signature)
+            : key.verify(payload, signature);
+
+        if (!valid) {
             throw new HelixError('Invalid token signature');
         }
+        return payload;
+    }
 
+    /**
+     * Verifies the signature of a JWT
+     * The `alg` header must match the algorithm of the key selected by `kid`, so
+     * `alg: none` and algorithm-confusion attacks (e.g. HS256 with a public key) fail.
+     * @param encodedHeader The encoded JOSE header
+     * @param payload The encoded payload
+     * @param signature The encoded signature
+     * @returns The verified encoded payload
+     * @throws {HelixError} If the header is invalid, the key is unknown or the signature is invalid
+     */
+    private verifyJwtSignature(encodedHeader: string, payload: string, signature: string): string {
+        let header: { alg?: unknown; kid?: unknown; crit?: unknown };
         try {
-            // Decode payload
-            const jsonData = Buffer.from(payload, 'base64url').toString();
-            return JSON.parse(jsonData) as T;
+            header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
         } catch (err) {
-            throw new HelixError('Failed to decode token payload');
+            throw new HelixError('Failed to decode token header');
+        }
+
+        if (header === null || typeof header !== 'object' || typeof header.alg !== 'string') {
+            throw new HelixError('Invalid token header');
+        }
+        if (header.alg.toLowerCase() === 'none' || !signature) {
+            throw new HelixError('Unsigned tokens are not accepted');
+        }
+        if (header.crit !== undefined) {
+            throw new HelixError('Unsupported critical token header');
+        }
+        if (header.kid !== undefined && typeof header.kid !== 'string') {
+            throw new HelixError('Invalid token header');
+        }
+
+        const key = this.resolveVerificationKey(header.kid);
+        if (header.alg !== key.algorithm) {
+            throw new HelixError(`Token algorithm ${header.alg} does not match key algorithm ${key.algorithm}`);
+        }
+
+        if (!key.verify(`${encodedHeader}.${payload}`, signature)) {
+            throw new HelixError('Invalid token signature');
+        }
+        return payload;
+    }
+
+    /**
+     * Looks up the active signing key
+     * @returns The active keyring entry and its ID, or the token secret key
+     * @throws {HelixError} If no signing key is configured
+     */
+    private resolveSigningKey(): { key: HelixKey; keyId?: string } {
+        const keyId = this.activeKeyId;
+        const key = keyId !== undefined ? this.keys.get(keyId) : this.tokenKey;
+        if (!key) {
+            throw new HelixError('Token secret not configured');
+        }
+        return { key, keyId };
+    }
+
+    /**
+     * Looks up the key that verifies a token
+     * @param keyId The key ID carried by the token, if any
+     * @returns The keyring entry for the key ID, or the token secret key
+     * @throws {HelixError} If no matching key is configured
+     */
+    private resolveVerificationKey(keyId?: string): HelixKey {
+        if (keyId !== undefined) {
+            const key = this.keys.get(keyId);
+            if (!key) {
+                throw new HelixError(`Unknown token key ID: ${keyId}`);
+            }
+            return key;
+        }
+        if (!this.tokenKey) {
+            throw new HelixError('Token secret not configured');
+        }
+        return this.tokenKey;
+    }
+
+    /**
+     * Adds a named key to the keyring, replacing any existing key with the same ID
+     * @param keyId The key ID embedded in tokens signed with this key
+     * @param key An HMAC secret or a {@link HelixKey}
+     * @throws {HelixError} If the key ID or secret is invalid
+     */
+    public addKey(keyId: string, key: string | HelixKey): void {
+        if (!Helix.KEY_ID_PATTERN.test(keyId)) {
+            throw new HelixError(`Invalid key ID: ${keyId}`);
+        }
+        if (typeof key === 'string' && !key) {
+            throw new HelixError(`Secret for key ID ${keyId} must not be empty`);
+        }
+        this.keys.set(keyId, typeof key === 'string' ? HelixKey.fromSecret(key) : key);
+    }
+
+    /**
+     * Selects the key used to sign new tokens; other keys keep verifying
+     * @param keyId The ID of a key in the keyring
+     * @throws {HelixError} If the key ID is not in the keyring or the key cannot sign
+     */
+    public setActiveKey(keyId: string): void {
+        const key = this.keys.get(keyId);
+        if (!key) {
+            throw new HelixError(`Unknown token key ID: ${keyId}`);
+        }
+        if (!key.canSign) {
+            throw new HelixError(`Key ID ${keyId} has no private key and cannot sign`);
+        }
+        this.activeKeyId = keyId;
+    }
+
+    /**
+     * Revokes a key, after which tokens signed with it no longer verify
+     * @param keyId The ID of the key to remove
+     * @throws {HelixError} If the key is currently active
+     */
+    public removeKey(keyId: string): void {
+        if (keyId === this.activeKeyId) {
+            throw new HelixError(`Cannot remove active key ID: ${keyId}`);
+        }
+        this.keys.delete(keyId);
+    }
+
+    /**
+     * Exports the public keys of the keyring as a JWKS document
+     * HMAC keys are never included.
+     * @returns The JWKS document for edge services to verify tokens with
+     */
+    public toJwks(): HelixJwks {
+        const keys = [...this.keys]
+            .filter(([, key]) => key.algorithm !== 'HS256')
+            .map(([keyId, key]) => key.toPublicJwk(keyId));
+        return { keys };
+    }
+
+    /**
+     * Merges registered claims into a token payload
+     * @param data The object payload to extend
+     * @param options The claims to add
+     * @returns A new payload object containing the data and claims
+     * @throws {HelixError} If data is not a plain object or a duration is invalid
+     */
+    private applyClaims(data: unknown, options: HelixTokenOptions): Record<string, unknown> {
+        if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+            throw new HelixError('Token claims require an object payload');
+        }
+
+        for (const key of ['expiresIn', 'notBefore'] as const) {
+            const value = options[key];
+            if (value !== undefined && !Number.isFinite(value)) {
+                throw new HelixError(`Invalid ${key} value: ${value}`);
+            }
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const claims: HelixTokenClaims = { iat: now };
+
+        if (options.expiresIn !== undefined) claims.exp = now + Math.floor(options.expiresIn);
+        if (options.notBefore !== undefined) claims.nbf = now + Math.floor(options.notBefore);
+        if (options.audience !== undefined) claims.aud = options.audience;
+        if (options.issuer !== undefined) claims.iss = options.issuer;
+        if (options.subject !== undefined) claims.sub = options.subject;
+        if (options.jwtId) claims.jti = options.jwtId === true ? this.generateId() : options.jwtId;
+        if (options.version !== undefined) claims.ver = options.version;
+
+        return { ...(data as Record<string, unknown>), ...claims };
+    }
+
+    /**
+     * Validates claims, applies migrations, runs the schema and checks revocation on a decoded payload
+     * @param data The decoded payload
+     * @param options Verification options
+     * @returns The validated payload
+     * @throws {HelixClaimError} If any claim fails validation
+     * @throws {HelixValidationError} If the payload cannot be migrated or does not match the schema
+     */
+    private finalizePayload<T>(data: unknown, options: HelixVerifyOptions<T>): T {
+        const claims = Helix.claimsOf(data);
+        this.validateClaims(claims, options);
+
+        // Shape first so a payload that fails its schema does not use up a single-use token
+        const payload = Helix.shapePayload(data, options);
+        this.checkRevocation(claims, options);
+        return payload;
+    }
+
+    /**
+     * Like {@link finalizePayload}, awaiting an asynchronous revocation store
+     */
+    private async finalizePayloadAsync<T>(data: unknown, options: HelixVerifyOptions<T>): Promise<T> {
+        const claims = Helix.claimsOf(data);
+        this.validateClaims(claims, options);
+        const payload = Helix.shapePayload(data, options);
+        await this.checkRevocationAsync(claims, options);
+        return payload;
+    }
+
+    /**
+     * The registered claims of a decoded payload
+     * Non-object payloads carry no claims but must still fail expected-claim checks.
+     */
+    private static claimsOf(data: unknown): HelixTokenClaims {
+        const isObject = data !== null && typeof data === 'object' && !Array.isArray(data);
+        return (isObject ? data : {}) as HelixTokenClaims;
+    }
+
+    /**
+     * Applies migrations and runs the schema on a payload whose claims have been validated
+     * @param data The decoded payload
+     * @param options Verification options
+     * @returns The validated payload
+     * @throws {HelixValidationError} If the payload cannot be migrated or does not match the schema
+     */
+    private static shapePayload<T>(data: unknown, options: HelixVerifyOptions<T>): T {
+        const isObject = data !== null && typeof data === 'object' && !Array.isArray(data);
+        let payload = data;
+        if (options.version !== undefined) {
+            if (!isObject) {
+                throw new HelixValidationError('', 'versioned payloads must be objects');
+            }
+            payload = Helix.migratePayload(data as Record<string, unknown>, options.version, options.migrations ?? {});
+        }
+
+        return options.schema ? Helix.applySchema(options.schema, payload) : payload as T;
+    }
+
+    /**
+     * Upgrades a payload to the target version one migration at a time
+     * @param payload The decoded payload
+     * @param version The target version
+     * @param migrations Migrations keyed by the version they upgrade from
+     * @returns The payload at the target version, with `ver` updated
+     * @throws {HelixValidationError} If the payload is newer than the target or a migration is missing
+     */
+    private static migratePayload(
+        payload: Record<string, unknown>,
+        version: number,
+        migrations: Record<number, HelixMigration>
+    ): Record<string, unknown> {
+        const current = payload.ver ?? 1;
+        if (typeof current !== 'number' || !Number.isInteger(current)) {
+            throw new HelixValidationError('ver', 'expected an integer');
+        }
+        if (current > version) {
+            throw new HelixValidationError('ver', `version ${current} is newer than supported version ${version}`);
+        }
+
+        let migrated = payload;
+        for (let from = current; from < version; from++) {
+            const migration = migrations[from];
+            if (!migration) {
+                throw new HelixValidationError('ver', `no migration from version ${from}`);
+            }
+            migrated = { ...migration(migrated), ver: from + 1 };
+        }
+        return migrated;
+    }
+
+    /**
+     * Runs a schema against a payload, converting failures to HelixValidationError
+     * @param schema The schema to apply
+     * @param payload The decoded payload
+     * @returns The validated payload
+     * @throws {HelixValidationError} If validation fails
+     */
+    private static applySchema<T>(schema: HelixSchema<T>, payload: unknown): T {
+        try {
+            return typeof schema === 'function' ? schema(payload) : schema.parse(payload);
+        } catch (err) {
+            if (err instanceof HelixValidationError) throw err;
+
+            // zod and similar libraries report the failing path in `issues`
+            const issue = (err as { issues?: { path?: (string | number)[]; message?: string }[] })?.issues?.[0];
+            if (issue) {
+                throw new HelixValidationError((issue.path ?? []).join('.'), issue.message ?? 'failed validation');
+            }
+            throw new HelixValidationError('', err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    /**
+     * Checks the registered claims of a decoded payload
+     * @param claims The decoded payload
+     * @param options Expected claim values and clock skew tolerance
+     * @throws {HelixClaimError} If any claim fails validation
+     */
+    private validateClaims(claims: HelixTokenClaims, options: HelixVerifyOptions<unknown>): void {
+        const now = Math.floor(Date.now() / 1000);
+        const tolerance = options.clockTolerance ?? this.clockTolerance;
+
+        if (claims.exp !== undefined) {
+            if (typeof claims.exp !== 'number') {
+                throw new HelixClaimError('Invalid exp claim', 'exp');
+            }
+            if (now - tolerance >= claims.exp) {
+                throw new HelixTokenExpiredError(new Date(claims.exp * 1000));
+            }
+        }
+
+        if (claims.nbf !== undefined) {
+            if (typeof claims.nbf !== 'number') {
+                throw new HelixClaimError('Invalid nbf claim', 'nbf');
+            }
+            if (now + tolerance < claims.nbf) {
+                throw new HelixTokenNotActiveError(new Date(claims.nbf * 1000));
+            }
+        }
+
+        if (options.audience !== undefined) {
+            const expected = [options.audience].flat();
+            const actual = claims.aud === undefined ? [] : [claims.aud].flat();
+            if (!actual.some(aud => expected.includes(aud))) {
+                throw new HelixTokenAudienceError(options.audience);
+            }
+        }
+
+        if (options.issuer !== undefined && claims.iss !== options.issuer) {
+            throw new HelixClaimError(`Token issuer does not match ${options.issuer}`, 'iss');
+        }
+
+        if (options.subject !== undefined && claims.sub !== options.subject) {
+            throw new HelixClaimError(`Token subject does not match ${options.subject}`, 'sub');
+        }
+    }
+
+    /**
+     * Rejects revoked tokens and consumes single-use tokens with a synchronous store
+     * The store is probed with `isRevoked` before `consume`, so an asynchronous store is
+     * detected before anything is written and the token stays usable with the async methods.
+     * @param claims The decoded payload
+     * @param options Verification options
+     * @throws {HelixTokenRevokedError} If the token was revoked or already consumed
+     * @throws {HelixClaimError} If the `jti` claim is invalid or missing for `consume`
+     * @throws {HelixError} If the revocation store is asynchronous
+     */
+    private checkRevocation(claims: HelixTokenClaims, options: HelixVerifyOptions<unknown>): void {
+        const target = this.revocationTarget(claims, options);
+        if (!target || !this.revocationStore) return;
+
+        const revoked = this.revocationStore.isRevoked(target.jti);
+        if (Helix.isThenable(revoked)) {
+            Promise.resolve(revoked).catch(() => undefined);
+            throw new HelixError('Revocation store is asynchronous; use verifyTokenAsync or decryptTokenAsync');
+        }
+        if (revoked) {
+            throw new HelixTokenRevokedError(target.jti);
+        }
+
+        if (options.consume) {
+            const consumed = this.revocationStore.consume(target.jti, target.expiresAt);
+            if (Helix.isThenable(consumed)) {
+                Promise.resolve(consumed).catch(() => undefined);
+                throw new HelixError('Revocation store is asynchronous; use verifyTokenAsync or decryptTokenAsync');
+            }
+            if (!consumed) {
+                throw new HelixTokenRevokedError(target.jti);
+            }
+        }
+    }
+
+    /**
+     * Rejects revoked tokens and consumes single-use tokens, awaiting the store
+     * @param claims The decoded payload
+     * @param options Verification options
+     * @throws {HelixTokenRevokedError} If the token was revoked or already consumed
+     * @throws {HelixClaimError} If the `jti` claim is invalid or missing for `consume`
+     */
+    private async checkRevocationAsync(claims: HelixTokenClaims, options: HelixVerifyOptions<unknown>): Promise<void> {
+        const target = this.revocationTarget(claims, options);
+        if (!target || !this.revocationStore) return;
+
+        const accepted = options.consume
+            ? await this.revocationStore.consume(target.jti, target.expiresAt)
+            : !await this.revocationStore.isRevoked(target.jti);
+        if (!accepted) {
+            throw new HelixTokenRevokedError(target.jti);
+        }
+    }
+
+    /**
+     * Determines the token ID to look up in the revocation store
+     * @param claims The decoded payload
+     * @param options Verification options
+     * @returns The token ID and expiry, or undefined if there is nothing to check
+     * @throws {HelixError} If `consume` is requested without a revocation store
+     * @throws {HelixClaimError} If the `jti` claim is invalid or missing for `consume`
+     */
+    private revocationTarget(
+        claims: HelixTokenClaims,
+        options: HelixVerifyOptions<unknown>
+    ): { jti: string; expiresAt?: Date } | undefined {
+        if (options.consume && !this.revocationStore) {
+            throw new HelixError('Revocation store not configured');
         }
+
+        if (!this.revocationStore || claims.jti === undefined) {
+            if (options.consume) {
+                throw new HelixClaimError('Token has no jti claim and cannot be consumed', 'jti');
+            }
+            return undefined;
+        }
+        if (typeof claims.jti !== 'string') {
+            throw new HelixClaimError('Invalid jti claim', 'jti');
+        }
+        return {
+            jti: claims.jti,
+            expiresAt: typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : undefined
+        };
+    }
+
+    /**
+     * Checks whether a store result is a promise or another thenable
+     */
+    private static isThenable<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+        return typeof (value as PromiseLike<T> | undefined)?.then === 'function';
+    }
+
+    /**
+     * Revokes a token by its `jti` claim
+     * @param jti The token ID to revoke
+     * @param expiresAt When the token expires, after which the store may forget it
+     * @returns The store's promise when the revocation store is asynchronous
+     * @throws {HelixError} If no revocation store is configured
+     */
+    public revokeToken(jti: string, expiresAt?: Date): void | Promise<void> {
+        if (!this.revocationStore) {
+            throw new HelixError('Revocation store not configured');
+        }
+        return this.revocationStore.revoke(jti, expiresAt);
+    }
+
+    /**
+     * Signs a URL so it can be verified later without server-side state
+     * The signature covers the method, the path (or `pathPrefix`), the sorted query
+     * parameters and the expiry; the host is not signed so URLs survive proxies.
+     * @param url An absolute URL or a path with an optional query string
+     * @param options Lifetime, method and optional path prefix
+     * @returns The URL with `expires`, `signature` and, when used, `kid` and `prefix` parameters appended
+     * @throws {HelixError} If no signing key is configured, the URL already carries a reserved parameter
+     * or its path is outside the prefix
+     */
+    public signUrl(url: string, options: HelixSignUrlOptions): string {
+        const { key, keyId } = this.resolveSigningKey();
+        const parsed = Helix.parseUrl(url);
+        const params = parsed.url.searchParams;
+
+        for (const name of Object.values(Helix.URL_PARAMS)) {
+            if (params.has(name)) {
+                throw new HelixError(`URL already contains reserved parameter ${name}`);
+            }
+        }
+        if (!Number.isFinite(options.expiresIn) || options.expiresIn <= 0) {
+            throw new HelixError('expiresIn must be a positive number of seconds');
+        }
+        if (options.pathPrefix !== undefined && !Helix.matchesPathPrefix(parsed.url.pathname, options.pathPrefix)) {
+            throw new HelixError(`URL path ${parsed.url.pathname} is outside the prefix ${options.pathPrefix}`);
+        }
+
+        params.append(Helix.URL_PARAMS.expires, String(Math.floor(Date.now() / 1000) + Math.floor(options.expiresIn)));
+        if (keyId !== undefined) params.append(Helix.URL_PARAMS.keyId, keyId);
+        if (options.pathPrefix !== undefined) params.append(Helix.URL_PARAMS.prefix, options.pathPrefix);
+
+        const signature = key.sign(Helix.canonicalizeUrl(parsed.url, options.method ?? 'GET', options.pathPrefix));
+        params.append(Helix.URL_PARAMS.signature, signature);
+
+        return parsed.absolute ? parsed.url.href : parsed.url.pathname + parsed.url.search;
+    }
+
+    /**
+     * Verifies a URL created by {@link Helix.signUrl}
+     * Adding, removing or changing any query parameter invalidates the signature.
+     * @param url The incoming absolute URL or path with query string (e.g. `req.originalUrl`)
+     * @param options The request method and clock skew tolerance
+     * @returns When the URL expires
+     * @throws {HelixError} If the URL is unsigned, malformed, outside its prefix or the signature is invalid
+     * @throws {HelixTokenExpiredError} If the URL has expired
+     */
+    public verifyUrl(url: string, options: HelixVerifyUrlOptions = {}): Date {
+        const { url: parsed } = Helix.parseUrl(url);
+        const params = parsed.searchParams;
+
+        const signatures = params.getAll(Helix.URL_PARAMS.signature);
+        const expires = params.getAll(Helix.URL_PARAMS.expires);
+        const keyIds = params.getAll(Helix.URL_PARAMS.keyId);
+        const prefixes = params.getAll(Helix.URL_PARAMS.prefix);
+        if (signatures.length !== 1 || expires.length !== 1 || keyIds.length > 1 || prefixes.length > 1) {
+            throw new HelixError('URL is not signed');
+        }
+        if (!/^\d+$/.test(expires[0])) {
+            throw new HelixError('Invalid URL expiry');
+        }
+
+        const pathPrefix = prefixes[0];
+        if (pathPrefix !== undefined && !Helix.matchesPathPrefix(parsed.pathname, pathPrefix)) {
+            throw new HelixError(`URL path ${parsed.pathname} is outside the signed prefix`);
+        }
+
+        // Check the signature before the expiry so forged URLs never learn about timing
+        const key = this.resolveVerificationKey(keyIds[0]);
+        params.delete(Helix.URL_PARAMS.signature);
+        if (!key.verify(Helix.canonicalizeUrl(parsed, options.method ?? 'GET', pathPrefix), signatures[0])) {
+            throw new HelixError('Invalid URL signature');
+        }
+
+        const expiresAt = Number(expires[0]);
+        const tolerance = options.clockTolerance ?? this.clockTolerance;
+        if (Math.floor(Date.now() / 1000) - tolerance >= expiresAt) {
+            throw new HelixTokenExpiredError(new Date(expiresAt * 1000));
+        }
+
+        return new Date(expiresAt * 1000);
+    }
+
+    /**
+     * Parses an absolute URL or a path-relative one
+     * @param url The URL to parse
+     * @returns The parsed URL and whether the input was absolute
+     * @throws {HelixError} If the URL cannot be parsed
+     */
+    private static parseUrl(url: string): { url: URL; absolute: boolean } {
+        try {
+            return { url: new URL(url), absolute: true };
+        } catch {
+            // Not absolute; resolve against a placeholder origin
+        }
+        if (!url.startsWith('/')) {
+            throw new HelixError(`Invalid URL: ${url}`);
+        }
+        try {
+            return { url: new URL(url, 'http://helix.invalid'), absolute: false };
+        } catch {
+            throw new HelixError(`Invalid URL: ${url}`);
+        }
+    }
+
+    /**
+     * Builds the string signed for a URL: method, path or prefix, and the sorted query
+     * @param url The parsed URL, without the signature parameter
+     * @param method The HTTP method
+     * @param pathPrefix The signed path prefix, replacing the exact path
+     * @returns The canonical request string
+     */
+    private static canonicalizeUrl(url: URL, method: string, pathPrefix?: string): string {
+        const query = [...url.searchParams]
+            .map(([name, value]) => [encodeURIComponent(name), encodeURIComponent(value)])
+            .sort(([a, x], [b, y]) => a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0)
+            .map(([name, value]) => `${name}=${value}`)
+            .join('&');
+
+        return ['HELIX-URL-V1', method.toUpperCase(), pathPrefix ?? url.pathname, query].join('\n');
+    }
+
+    /**
+     * Checks whether a normalized path lies under a prefix
+     * @param pathname The URL path, with dot segments already resolved
+     * @param pathPrefix The prefix; a trailing slash restricts it to whole segments
+     * @returns True if the path starts with the prefix
+     */
+    private static matchesPathPrefix(pathname: string, pathPrefix: string): boolean {
+        return pathPrefix.startsWith('/') && pathname.startsWith(pathPrefix);
     }
 
     /**
      * Decodes a Snowflake ID into its components
-     * @param id The ID to decode
+     * @param id The ID to decode, as a bigint or a string in any supported encoding
+     * @param layout The layout the ID was generated with, defaults to {@link Helix.DEFAULT_LAYOUT}
+     * @param encoding The encoding of a string ID, defaults to `decimal`; `auto` detects it (see {@link Helix.parseId})
      * @returns Object containing timestamp, worker ID and sequence number
+     * @throws {HelixError} If the layout or the ID is invalid
      */
-    public static decodeId(id: string | bigint): {
+    public static decodeId(
+        id: string | bigint,
+        layout: Partial<HelixIdLayout> = Helix.DEFAULT_LAYOUT,
+        encoding: HelixIdEncoding | 'auto' = 'decimal'
+    ): {
         timestamp: Date;
         workerId: number;
         sequence: number;
     } {
-        const bigIntId = typeof id === 'string' ? BigInt(id) : id;
+        const resolved = Helix.resolveLayout(layout);
+        const bigIntId = typeof id === 'string' ? Helix.parseId(id, encoding) : id;
 
-        const timestamp = Number(bigIntId >> BigInt(Helix.TIMESTAMP_SHIFT)) + Helix.EPOCH;
-        const workerId = Number((bigIntId >> BigInt(Helix.WORKER_ID_SHIFT)) & BigInt(Helix.MAX_WORKER_ID));
-        const sequence = Number(bigIntId & BigInt(Helix.MAX_SEQUENCE));
+        const timestampMask = (BigInt(1) << BigInt(resolved.timestampBits)) - BigInt(1);
+        const timestamp = Number((bigIntId >> BigInt(resolved.timestampShift)) & timestampMask) + resolved.epoch;
+        const workerId = Number((bigIntId >> BigInt(resolved.workerIdShift)) & BigInt(resolved.maxWorkerId));
+        const sequence = Number(bigIntId & BigInt(resolved.maxSequence));
 
         return {
             timestamp: new Date(timestamp),
@@ -216,26 +1377,315 @@ export class Helix {
     }
 
     /**
-     * Signs a payload using HMAC-SHA256
-     * @param payload The payload to sign
-     * @returns The base64url encoded signature
+     * Extracts the creation time of an ID without decoding the other fields
+     * @param id The ID, as a bigint or a string in any supported encoding
+     * @param layout The layout the ID was generated with, defaults to {@link Helix.DEFAULT_LAYOUT}
+     * @param encoding The encoding of a string ID, defaults to `decimal`; `auto` detects it (see {@link Helix.parseId})
+     * @returns The time the ID was generated
+     * @throws {HelixError} If the layout or the ID is invalid
+     */
+    public static getTimestamp(
+        id: string | bigint,
+        layout: Partial<HelixIdLayout> = Helix.DEFAULT_LAYOUT,
+        encoding: HelixIdEncoding | 'auto' = 'decimal'
+    ): Date {
+        const resolved = Helix.resolveLayout(layout);
+        const bigIntId = typeof id === 'string' ? Helix.parseId(id, encoding) : id;
+        return new Date(Number(bigIntId >> BigInt(resolved.timestampShift)) + resolved.epoch);
+    }
+
+    /**
+     * Builds the smallest ID that can be generated at the given time
+     * Useful as the lower bound of `WHERE id BETWEEN ? AND ?` queries.
+     * @param date The time, inclusive
+     * @param layout The layout of the IDs, defaults to {@link Helix.DEFAULT_LAYOUT}
+     * @returns The smallest ID as a decimal string
+     * @throws {HelixError} If the date is outside the layout's timestamp range
+     */
+    public static minIdForDate(date: Date | number, layout: Partial<HelixIdLayout> = Helix.DEFAULT_LAYOUT): string {
+        const resolved = Helix.resolveLayout(layout);
+        return (Helix.timestampBits(date, resolved) << BigInt(resolved.timestampShift)).toString();
+    }
+
+    /**
+     * Builds the largest ID that can be generated at the given time
+     * Useful as the upper bound of `WHERE id BETWEEN ? AND ?` queries.
+     * @param date The time, inclusive
+     * @param layout The layout of the IDs, defaults to {@link Helix.DEFAULT_LAYOUT}
+     * @returns The largest ID as a decimal string
+     * @throws {HelixError} If the date is outside the layout's timestamp range
      */
-    private signPayload(payload: string): string {
-        return crypto
-            .createHmac('sha256', this.tokenSecret)
-            .update(payload)
-            .digest()
-            .toString('base64url');
+    public static maxIdForDate(date: Date | number, layout: Partial<HelixIdLayout> = Helix.DEFAULT_LAYOUT): string {
+        const resolved = Helix.resolveLayout(layout);
+        const lowBits = (BigInt(1) << BigInt(resolved.timestampShift)) - BigInt(1);
+        return ((Helix.timestampBits(date, resolved) << BigInt(resolved.timestampShift)) | lowBits).toString();
+    }
+
+    /**
+     * Compares two IDs numerically without converting them to JavaScript numbers
+     * Can be passed directly to `Array.prototype.sort`.
+     * @param a The first ID, as a bigint or a string in any supported encoding
+     * @param b The second ID, as a bigint or a string in any supported encoding
+     * @param encoding The encoding of string IDs, defaults to `decimal`; `auto` detects it (see {@link Helix.parseId})
+     * @returns A negative number if a < b, a positive number if a > b, 0 if equal
+     * @throws {HelixError} If either ID is invalid
+     */
+    public static compareIds(a: string | bigint, b: string | bigint, encoding: HelixIdEncoding | 'auto' = 'decimal'): number {
+        const left = typeof a === 'string' ? Helix.parseId(a, encoding) : a;
+        const right = typeof b === 'string' ? Helix.parseId(b, encoding) : b;
+        return left < right ? -1 : left > right ? 1 : 0;
+    }
+
+    /**
+     * Checks whether a value is a well-formed ID for the given layout
+     * @param value The value to check
+     * @param options.layout The layout of the IDs, defaults to {@link Helix.DEFAULT_LAYOUT}
+     * @param options.encoding The expected encoding, defaults to `decimal`; `auto` detects it
+     * @returns True if the value parses and fits in the layout's bits
+     */
+    public static isValidId(
+        value: unknown,
+        options: { layout?: Partial<HelixIdLayout>; encoding?: HelixIdEncoding | 'auto' } = {}
+    ): boolean {
+        if (typeof value !== 'string' && typeof value !== 'bigint') {
+            return false;
+        }
+
+        try {
+            const resolved = Helix.resolveLayout(options.layout ?? Helix.DEFAULT_LAYOUT);
+            const id = typeof value === 'string' ? Helix.parseId(value, options.encoding ?? 'decimal') : value;
+            const totalBits = resolved.timestampBits + resolved.timestampShift;
+            return id >= BigInt(0) && id < (BigInt(1) << BigInt(totalBits));
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Converts a date to the timestamp field of an ID
+     * @param date The date or millisecond timestamp
+     * @param layout The resolved layout
+     * @returns The timestamp offset from the epoch
+     * @throws {HelixError} If the date is outside the layout's timestamp range
+     */
+    private static timestampBits(date: Date | number, layout: ResolvedIdLayout): bigint {
+        const time = date instanceof Date ? date.getTime() : date;
+        const offset = time - layout.epoch;
+        if (!Number.isFinite(offset)) {
+            throw new HelixError(`Invalid date: ${date}`);
+        }
+        if (offset < 0 || offset >= 2 ** layout.timestampBits) {
+            throw new HelixError(`Date ${new Date(time).toISOString()} is outside the ID timestamp range`);
+        }
+        return BigInt(Math.floor(offset));
+    }
+
+    /**
+     * Decodes a Snowflake ID generated with this instance's layout
+     * @param id The ID to decode
+     * @param encoding The encoding of a string ID, defaults to this instance's `idEncoding`
+     * @returns Object containing timestamp, worker ID and sequence number
+     * @throws {HelixError} If the ID is invalid
+     */
+    public decodeId(id: string | bigint, encoding: HelixIdEncoding | 'auto' = this.idEncoding): ReturnType<typeof Helix.decodeId> {
+        return Helix.decodeId(id, this.layout, encoding);
+    }
+
+    /**
+     * Encodes a Snowflake ID
+     * @param id The ID as a bigint or decimal string
+     * @param encoding The target encoding
+     * @returns The encoded ID; base62 and base32 output is fixed-width and sorts like the numeric ID
+     * @throws {HelixError} If the ID is not a valid unsigned 64-bit integer
+     */
+    public static encodeId(id: string | bigint, encoding: HelixIdEncoding): string {
+        const value = typeof id === 'string' ? Helix.parseId(id, 'decimal') : id;
+        if (value < BigInt(0) || value > Helix.MAX_ID) {
+            throw new HelixError(`ID ${value} is not an unsigned 64-bit integer`);
+        }
+
+        switch (encoding) {
+            case 'decimal':
+                return value.toString();
+            case 'base62':
+                return Helix.encodeBase(value, Helix.BASE62_ALPHABET, Helix.BASE62_LENGTH);
+            case 'base32':
+                return Helix.encodeBase(value, Helix.BASE32_ALPHABET, Helix.BASE32_LENGTH);
+            case 'base64url': {
+                const buffer = Buffer.alloc(8);
+                buffer.writeBigUInt64BE(value);
+                return buffer.toString('base64url');
+            }
+            default:
+                throw new HelixError(`Unsupported ID encoding: ${encoding}`);
+        }
+    }
+
+    /**
+     * Parses an encoded Snowflake ID into a bigint
+     *
+     * With `auto`, 13-character strings are base32, 11-character strings are base62 and
+     * other digit-only strings are decimal. base64url cannot be told apart from base62, and
+     * decimal IDs of 11 or 13 digits cannot be told apart from the fixed-width encodings;
+     * both must be named explicitly.
+     * @param id The encoded ID
+     * @param encoding The encoding of the ID, defaults to `decimal`; `auto` detects it
+     * @returns The numeric ID
+     * @throws {HelixError} If the ID is not valid in the encoding
+     */
+    public static parseId(id: string, encoding: HelixIdEncoding | 'auto' = 'decimal'): bigint {
+        const resolved = encoding === 'auto' ? Helix.detectEncoding(id) : encoding;
+        let value: bigint;
+
+        switch (resolved) {
+            case 'decimal':
+                if (!/^\d{1,20}$/.test(id)) {
+                    throw new HelixError(`Invalid decimal ID: ${id}`);
+                }
+                value = BigInt(id);
+                break;
+            case 'base62':
+                value = Helix.decodeBase(id, Helix.BASE62_ALPHABET, Helix.BASE62_LENGTH, resolved);
+                break;
+            case 'base32': {
+                // Crockford base32 is case-insensitive and treats I/L as 1 and O as 0
+                const normalized = id.toUpperCase().replace(/[IL]/g, '1').replace(/O/g, '0');
+                value = Helix.decodeBase(normalized, Helix.BASE32_ALPHABET, Helix.BASE32_LENGTH, resolved);
+                break;
+            }
+            case 'base64url': {
+                const buffer = Buffer.from(id, 'base64url');
+                if (buffer.length !== 8 || buffer.toString('base64url') !== id) {
+                    throw new HelixError(`Invalid base64url ID: ${id}`);
+                }
+                value = buffer.readBigUInt64BE();
+                break;
+            }
+            default:
+                throw new HelixError(`Unsupported ID encoding: ${resolved}`);
+        }
+
+        if (value > Helix.MAX_ID) {
+            throw new HelixError(`ID ${id} is not an unsigned 64-bit integer`);
+        }
+        return value;
+    }
+
+    /**
+     * Guesses the encoding of a string ID
+     * @param id The encoded ID
+     * @returns The detected encoding
+     * @throws {HelixError} If the ID matches none of the encodings
+     */
+    private static detectEncoding(id: string): HelixIdEncoding {
+        // Fixed-width IDs may consist of digits only, so the length is checked first
+        if (id.length === Helix.BASE32_LENGTH) return 'base32';
+        if (id.length === Helix.BASE62_LENGTH) return 'base62';
+        if (/^\d+$/.test(id)) return 'decimal';
+        throw new HelixError(`Cannot detect the encoding of ID: ${id}`);
+    }
+
+    /**
+     * Encodes a number as a fixed-width string in the given alphabet
+     * @param value The number to encode
+     * @param alphabet The digits of the base, in ascending order
+     * @param length The output width
+     * @returns The left-padded encoded string
+     */
+    private static encodeBase(value: bigint, alphabet: string, length: number): string {
+        const base = BigInt(alphabet.length);
+        let result = '';
+        let remaining = value;
+        while (remaining > BigInt(0)) {
+            result = alphabet[Number(remaining % base)] + result;
+            remaining /= base;
+        }
+        return result.padStart(length, alphabet[0]);
+    }
+
+    /**
+     * Decodes a fixed-width string in the given alphabet
+     * @param id The encoded string
+     * @param alphabet The digits of the base, in ascending order
+     * @param length The expected width
+     * @param encoding The encoding name for error messages
+     * @returns The decoded number
+     * @throws {HelixError} If the string has the wrong width or contains invalid characters
+     */
+    private static decodeBase(id: string, alphabet: string, length: number, encoding: HelixIdEncoding): bigint {
+        if (id.length !== length) {
+            throw new HelixError(`Invalid ${encoding} ID: ${id}`);
+        }
+        const base = BigInt(alphabet.length);
+        let value = BigInt(0);
+        for (const char of id) {
+            const digit = alphabet.indexOf(char);
+            if (digit === -1) {
+                throw new HelixError(`Invalid ${encoding} ID: ${id}`);
+            }
+            value = value * base + BigInt(digit);
+        }
+        return value;
+    }
+
+    /**
+     * The epoch and bit allocation used by this instance
+     */
+    public get idLayout(): HelixIdLayout {
+        const { epoch, timestampBits, workerIdBits, sequenceBits } = this.layout;
+        return { epoch, timestampBits, workerIdBits, sequenceBits };
+    }
+
+    /**
+     * Merges a partial layout over the default and validates it
+     * @param layout The partial layout
+     * @returns The validated layout with derived shifts and limits
+     * @throws {HelixError} If a bit count is out of range or the total is not 63 or 64 bits
+     */
+    private static resolveLayout(layout: Partial<Omit<HelixIdLayout, 'epoch'>> & { epoch?: number | Date }): ResolvedIdLayout {
+        const epoch = layout.epoch instanceof Date ? layout.epoch.getTime() : layout.epoch ?? Helix.DEFAULT_LAYOUT.epoch;
+        const timestampBits = layout.timestampBits ?? Helix.DEFAULT_LAYOUT.timestampBits;
+        const workerIdBits = layout.workerIdBits ?? Helix.DEFAULT_LAYOUT.workerIdBits;
+        const sequenceBits = layout.sequenceBits ?? Helix.DEFAULT_LAYOUT.sequenceBits;
+
+        if (!Number.isSafeInteger(epoch) || epoch < 0) {
+            throw new HelixError(`Invalid epoch: ${layout.epoch}`);
+        }
+        if (!Number.isInteger(workerIdBits) || workerIdBits < 0 || workerIdBits > 30) {
+            throw new HelixError(`Worker ID bits must be an integer between 0 and 30, got ${workerIdBits}`);
+        }
+        if (!Number.isInteger(sequenceBits) || sequenceBits < 1 || sequenceBits > 30) {
+            throw new HelixError(`Sequence bits must be an integer between 1 and 30, got ${sequenceBits}`);
+        }
+        if (!Number.isInteger(timestampBits) || timestampBits < 1 || timestampBits > 53) {
+            throw new HelixError(`Timestamp bits must be an integer between 1 and 53, got ${timestampBits}`);
+        }
+
+        const totalBits = timestampBits + workerIdBits + sequenceBits;
+        if (totalBits !== 63 && totalBits !== 64) {
+            throw new HelixError(`ID layout must total 63 or 64 bits, got ${totalBits}`);
+        }
+
+        return {
+            epoch,
+            timestampBits,
+            workerIdBits,
+            sequenceBits,
+            maxWorkerId: 2 ** workerIdBits - 1,
+            maxSequence: 2 ** sequenceBits - 1,
+            timestampShift: workerIdBits + sequenceBits,
+            workerIdShift: sequenceBits
+        };
     }
 
     /**
      * Generates a deterministic worker ID based on hostname and process ID
-     * @returns A worker ID between 0 and MAX_WORKER_ID
+     * @returns A worker ID between 0 and the layout's maximum worker ID
      */
     private generateWorkerId(): number {
         const hostIdentifier = `${os.hostname()}:${process.pid}`;
         const hash = crypto.createHash('sha256').update(hostIdentifier).digest();
-        return hash.readUInt32BE(0) & Helix.MAX_WORKER_ID;
+        return hash.readUInt32BE(0) & this.layout.maxWorkerId;
     }
 }
 
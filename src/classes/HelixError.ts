@@ -0,0 +1,79 @@
+/**
+ * Custom error class for Helix-specific errors
+ */
+export class HelixError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HelixError';
+    }
+}
+
+/**
+ * Raised when a token's registered claims fail validation
+ */
+export class HelixClaimError extends HelixError {
+    constructor(message: string, public readonly claim: string) {
+        super(message);
+        this.name = 'HelixClaimError';
+    }
+}
+
+/**
+ * Raised when a token's `exp` claim is in the past
+ */
+export class HelixTokenExpiredError extends HelixClaimError {
+    constructor(public readonly expiredAt: Date) {
+        super(`Token expired at ${expiredAt.toISOString()}`, 'exp');
+        this.name = 'HelixTokenExpiredError';
+    }
+}
+
+/**
+ * Raised when a token's `nbf` claim is in the future
+ */
+export class HelixTokenNotActiveError extends HelixClaimError {
+    constructor(public readonly notBefore: Date) {
+        super(`Token not valid before ${notBefore.toISOString()}`, 'nbf');
+        this.name = 'HelixTokenNotActiveError';
+    }
+}
+
+/**
+ * Raised when a token's `aud` claim does not match the expected audience
+ */
+export class HelixTokenAudienceError extends HelixClaimError {
+    constructor(expected: string | string[]) {
+        super(`Token audience does not match ${[expected].flat().join(', ')}`, 'aud');
+        this.name = 'HelixTokenAudienceError';
+    }
+}
+
+/**
+ * Raised when a token's `jti` has been revoked or already consumed
+ */
+export class HelixTokenRevokedError extends HelixClaimError {
+    constructor(public readonly jti: string) {
+        super(`Token ${jti} has been revoked`, 'jti');
+        this.name = 'HelixTokenRevokedError';
+    }
+}
+
+/**
+ * Raised when a token payload does not match the expected schema
+ */
+export class HelixValidationError extends HelixError {
+    constructor(public readonly field: string, public readonly reason: string) {
+        super(field ? `Invalid token payload field ${field}: ${reason}` : `Invalid token payload: ${reason}`);
+        this.name = 'HelixValidationError';
+    }
+}
+
+/**
+ * Raised when an incoming webhook fails verification
+ */
+export class HelixWebhookError extends HelixError {
+    constructor(message: string, public readonly reason: 'header' | 'signature' | 'timestamp' | 'duplicate') {
+        super(message);
+        this.name = 'HelixWebhookError';
+    }
+}
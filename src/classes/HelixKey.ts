@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import { HelixError } from './HelixError';
+
+/**
+ * Signature algorithms supported by Helix, named after their JOSE identifiers
+ * - HS256: HMAC-SHA256 with a shared secret
+ * - EdDSA: Ed25519
+ * - ES256: ECDSA on P-256 with SHA-256
+ */
+export type HelixAlgorithm = 'HS256' | 'EdDSA' | 'ES256';
+
+/**
+ * A public key in JSON Web Key format
+ */
+export interface HelixPublicJwk {
+    kty: string;
+    crv?: string;
+    x?: string;
+    y?: string;
+    kid?: string;
+    alg?: HelixAlgorithm;
+    use?: 'sig';
+}
+
+/**
+ * A JSON Web Key Set document
+ */
+export interface HelixJwks {
+    keys: HelixPublicJwk[];
+}
+
+/**
+ * HelixKey - A signing or verification key for Helix tokens
+ *
+ * Wraps either an HMAC secret or an Ed25519 / P-256 key pair. A key created from
+ * a public key only can verify tokens but not sign them, which lets edge services
+ * check tokens without being able to mint new ones.
+ */
+export class HelixKey {
+    // HKDF info string binding derived keys to token encryption
+    private static readonly ENCRYPTION_INFO = 'helix-token-encryption-v1';
+    private static readonly IV_BYTES = 12;
+
+    private encryptionKey?: Buffer;
+
+    private constructor(
+        public readonly algorithm: HelixAlgorithm,
+        private readonly secret?: Buffer,
+        private readonly privateKey?: crypto.KeyObject,
+        private readonly publicKey?: crypto.KeyObject
+    ) {}
+
+    /**
+     * Creates an HS256 key from a shared secret
+     * @param secret The HMAC secret
+     * @returns A key that can both sign and verify
+     * @throws {HelixError} If the secret is empty
+     */
+    public static fromSecret(secret: string | Buffer): HelixKey {
+        if (secret.length === 0) {
+            throw new HelixError('HMAC secret must not be empty');
+        }
+        return new HelixKey('HS256', Buffer.from(secret));
+    }
+
+    /**
+     * Imports an Ed25519 or P-256 key from PEM
+     * @param pem A PKCS#8 private key or SPKI public key in PEM format
+     * @returns A signing key for private keys, a verification-only key for public keys
+     * @throws {HelixError} If the key cannot be parsed or uses an unsupported curve
+     */
+    public static fromPem(pem: string | Buffer): HelixKey {
+        try {
+            const text = pem.toString();
+            if (text.includes('PRIVATE KEY')) {
+                const privateKey = crypto.createPrivateKey(text);
+                return HelixKey.fromKeyObjects(privateKey, crypto.createPublicKey(privateKey));
+            }
+            return HelixKey.fromKeyObjects(undefined, crypto.createPublicKey(text));
+        } catch (err) {
+            if (err instanceof HelixError) throw err;
+            throw new HelixError(`Failed to import PEM key: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    /**
+     * Imports an Ed25519 or P-256 key from a JSON Web Key
+     * @param jwk An OKP or EC JWK; includes `d` for private keys
+     * @returns A signing key for private keys, a verification-only key for public keys
+     * @throws {HelixError} If the key cannot be parsed or uses an unsupported curve
+     */
+    public static fromJwk(jwk: HelixPublicJwk & { d?: string }): HelixKey {
+        try {
+            if (jwk.d) {
+                const privateKey = crypto.createPrivateKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+                return HelixKey.fromKeyObjects(privateKey, crypto.createPublicKey(privateKey));
+            }
+            return HelixKey.fromKeyObjects(undefined, crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' }));
+        } catch (err) {
+            if (err instanceof HelixError) throw err;
+            throw new HelixError(`Failed to import JWK: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    /**
+     * Imports every key of a JWKS document, indexed by key ID
+     * @param jwks The JWKS document
+     * @returns Verification keys suitable for a Helix keyring
+     * @throws {HelixError} If a key has no `kid` or cannot be imported
+     */
+    public static fromJwks(jwks: HelixJwks): Record<string, HelixKey> {
+        const keys: Record<string, HelixKey> = {};
+        for (const jwk of jwks.keys) {
+            if (!jwk.kid) {
+                throw new HelixError('JWKS key is missing a kid');
+            }
+            keys[jwk.kid] = HelixKey.fromJwk(jwk);
+        }
+        return keys;
+    }
+
+    /**
+     * Generates a new random key
+     * @param algorithm The algorithm of the key to generate
+     * @returns A new signing key
+     */
+    public static generate(algorithm: HelixAlgorithm): HelixKey {
+        switch (algorithm) {
+            case 'HS256':
+                return HelixKey.fromSecret(crypto.randomBytes(32));
+            case 'EdDSA': {
+                const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+                return new HelixKey('EdDSA', undefined, privateKey, publicKey);
+            }
+            case 'ES256': {
+                const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+                return new HelixKey('ES256', undefined, privateKey, publicKey);
+            }
+            default:
+                throw new HelixError(`Unsupported algorithm: ${algorithm}`);
+        }
+    }
+
+    /**
+     * Whether this key can produce signatures
+     */
+    public get canSign(): boolean {
+        return this.secret !== undefined || this.privateKey !== undefined;
+    }
+
+    /**
+     * Signs data with this key
+     * @param data The data to sign
+     * @returns The base64url encoded signature (raw r||s for ES256)
+     * @throws {HelixError} If this is a verification-only key
+     */
+    public sign(data: string): string {
+        if (this.secret) {
+            return crypto.createHmac('sha256', this.secret).update(data).digest().toString('base64url');
+        }
+        if (!this.privateKey) {
+            throw new HelixError('Key cannot sign: no private key available');
+        }
+        if (this.algorithm === 'EdDSA') {
+            return crypto.sign(null, Buffer.from(data), this.privateKey).toString('base64url');
+        }
+        return crypto
+            .sign('sha256', Buffer.from(data), { key: this.privateKey, dsaEncoding: 'ieee-p1363' })
+            .toString('base64url');
+    }
+
+    /**
+     * Verifies a signature over data
+     * @param data The signed data
+     * @param signature The base64url encoded signature
+     * @returns True if the signature is valid
+     */
+    public verify(data: string, signature: string): boolean {
+        if (this.secret) {
+            const expected = Buffer.from(this.sign(data));
+            const actual = Buffer.from(signature);
+            return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+        }
+
+        const signatureBuffer = Buffer.from(signature, 'base64url');
+        if (this.algorithm === 'EdDSA') {
+            return crypto.verify(null, Buffer.from(data), this.publicKey!, signatureBuffer);
+        }
+        return crypto.verify(
+            'sha256',
+            Buffer.from(data),
+            { key: this.publicKey!, dsaEncoding: 'ieee-p1363' },
+            signatureBuffer
+        );
+    }
+
+    /**
+     * Whether this key can encrypt tokens (only HMAC secrets can)
+     */
+    public get canEncrypt(): boolean {
+        return this.secret !== undefined;
+    }
+
+    /**
+     * Encrypts data with AES-256-GCM using a key derived from the HMAC secret via HKDF-SHA256
+     * @param plaintext The data to encrypt
+     * @param aad Additional authenticated data bound to the ciphertext
+     * @returns The sealed data in the format: base64url(iv).base64url(ciphertext).base64url(tag)
+     * @throws {HelixError} If this is not an HMAC key
+     */
+    public encrypt(plaintext: string, aad: string): string {
+        const iv = crypto.randomBytes(HelixKey.IV_BYTES);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+        cipher.setAAD(Buffer.from(aad));
+        const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+        const tag = cipher.getAuthTag();
+
+        return [iv, ciphertext, tag].map(part => part.toString('base64url')).join('.');
+    }
+
+    /**
+     * Decrypts data sealed by {@link HelixKey.encrypt}
+     * @param sealed The sealed data
+     * @param aad The additional authenticated data used when encrypting
+     * @returns The decrypted plaintext
+     * @throws {HelixError} If the data was tampered with or was not sealed with this key
+     */
+    public decrypt(sealed: string, aad: string): string {
+        const key = this.getEncryptionKey();
+        try {
+            const [iv, ciphertext, tag] = sealed.split('.').map(part => Buffer.from(part, 'base64url'));
+            if (iv.length !== HelixKey.IV_BYTES || tag.length !== 16) {
+                throw new Error('Malformed sealed data');
+            }
+            const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+            decipher.setAAD(Buffer.from(aad));
+            decipher.setAuthTag(tag);
+            return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+        } catch (err) {
+            throw new HelixError('Failed to decrypt token');
+        }
+    }
+
+    /**
+     * Exports the public half of this key as a JWK
+     * @param kid Optional key ID to include
+     * @returns The public JWK
+     * @throws {HelixError} If this is an HMAC key
+     */
+    public toPublicJwk(kid?: string): HelixPublicJwk {
+        if (!this.publicKey) {
+            throw new HelixError('HMAC keys have no public component');
+        }
+        const jwk = this.publicKey.export({ format: 'jwk' }) as HelixPublicJwk;
+        return {
+            ...jwk,
+            ...(kid !== undefined && { kid }),
+            alg: this.algorithm,
+            use: 'sig'
+        };
+    }
+
+    /**
+     * Exports the public half of this key as an SPKI PEM
+     * @returns The PEM encoded public key
+     * @throws {HelixError} If this is an HMAC key
+     */
+    public toPublicPem(): string {
+        if (!this.publicKey) {
+            throw new HelixError('HMAC keys have no public component');
+        }
+        return this.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    }
+
+    /**
+     * Derives and caches the AES-256 key for this HMAC secret
+     * @returns The 32-byte encryption key
+     * @throws {HelixError} If this is not an HMAC key
+     */
+    private getEncryptionKey(): Buffer {
+        if (!this.secret) {
+            throw new HelixError('Token encryption requires an HMAC secret');
+        }
+        if (!this.encryptionKey) {
+            this.encryptionKey = Buffer.from(
+                crypto.hkdfSync('sha256', this.secret, Buffer.alloc(0), HelixKey.ENCRYPTION_INFO, 32)
+            );
+        }
+        return this.encryptionKey;
+    }
+
+    /**
+     * Builds an asymmetric key, detecting the algorithm from the key type
+     * @param privateKey The private key, if available
+     * @param publicKey The public key
+     * @returns The wrapped key
+     * @throws {HelixError} If the key type or curve is unsupported
+     */
+    private static fromKeyObjects(privateKey: crypto.KeyObject | undefined, publicKey: crypto.KeyObject): HelixKey {
+        if (publicKey.asymmetricKeyType === 'ed25519') {
+            return new HelixKey('EdDSA', undefined, privateKey, publicKey);
+        }
+        if (publicKey.asymmetricKeyType === 'ec' && publicKey.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+            return new HelixKey('ES256', undefined, privateKey, publicKey);
+        }
+        throw new HelixError(`Unsupported key type: ${publicKey.asymmetricKeyType}`);
+    }
+}
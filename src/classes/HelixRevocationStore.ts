@@ -0,0 +1,307 @@
+import fs from 'fs';
+import path from 'path';
+import { HelixError } from './HelixError';
+
+/**
+ * Storage for revoked and consumed token IDs (`jti` claims)
+ *
+ * Stores may answer synchronously or return promises, e.g. when backed by Redis or a
+ * database. Asynchronous stores require `verifyTokenAsync`/`decryptTokenAsync`.
+ * Entries only need to be kept until the token itself expires.
+ */
+export interface HelixRevocationStore {
+    /**
+     * Marks a token ID as revoked
+     * @param jti The token ID
+     * @param expiresAt When the token expires and the entry can be discarded; kept forever if omitted
+     */
+    revoke(jti: string, expiresAt?: Date): void | Promise<void>;
+
+    /**
+     * Checks whether a token ID has been revoked or consumed
+     * @param jti The token ID
+     */
+    isRevoked(jti: string): boolean | Promise<boolean>;
+
+    /**
+     * Atomically marks a token ID as used
+     * Must be atomic across every process sharing the store, e.g. Redis `SET NX`.
+     * @param jti The token ID
+     * @param expiresAt When the token expires and the entry can be discarded
+     * @returns False if the token ID was already revoked or consumed
+     */
+    consume(jti: string, expiresAt?: Date): boolean | Promise<boolean>;
+}
+
+/**
+ * In-memory revocation store
+ *
+ * Expired entries are pruned lazily on writes, at most once per prune interval.
+ * State is lost when the process exits and is not shared between processes.
+ */
+export class HelixMemoryRevocationStore implements HelixRevocationStore {
+    protected readonly entries = new Map<string, number>();
+    private readonly pruneInterval: number;
+    private lastPrune = Date.now();
+
+    /**
+     * Creates a new in-memory revocation store
+     * @param options.pruneInterval Minimum time in milliseconds between prunes (default 60000)
+     */
+    constructor(options: { pruneInterval?: number } = {}) {
+        this.pruneInterval = options.pruneInterval ?? 60000;
+    }
+
+    public revoke(jti: string, expiresAt?: Date): void {
+        this.entries.set(jti, expiresAt ? expiresAt.getTime() : Infinity);
+        this.maybePrune();
+    }
+
+    public isRevoked(jti: string): boolean {
+        const expiresAt = this.entries.get(jti);
+        return expiresAt !== undefined && expiresAt > Date.now();
+    }
+
+    public consume(jti: string, expiresAt?: Date): boolean {
+        if (this.isRevoked(jti)) {
+            return false;
+        }
+        this.revoke(jti, expiresAt);
+        return true;
+    }
+
+    /**
+     * Removes all entries whose tokens have expired
+     * @returns The number of removed entries
+     */
+    public prune(): number {
+        const now = Date.now();
+        let removed = 0;
+        for (const [jti, expiresAt] of this.entries) {
+            if (expiresAt <= now) {
+                this.entries.delete(jti);
+                removed++;
+            }
+        }
+        this.lastPrune = now;
+        return removed;
+    }
+
+    /**
+     * The number of stored entries, including expired ones not yet pruned
+     */
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    private maybePrune(): void {
+        if (Date.now() - this.lastPrune >= this.pruneInterval) {
+            this.prune();
+        }
+    }
+}
+
+/**
+ * File-backed revocation store
+ *
+ * Keeps entries in memory and appends every revocation to a newline-delimited JSON
+ * file. Before each check the file is re-read from the last known position, and writes
+ * hold a lock file (`<file>.lock`), so processes on the same host sharing the file see
+ * each other's revocations and a token can only be consumed once among them. The file
+ * is compacted when pruning. Use a shared backend such as Redis across hosts.
+ */
+export class HelixFileRevocationStore extends HelixMemoryRevocationStore {
+    /** Age in milliseconds after which a lock file is assumed to be left by a crashed process */
+    private static readonly STALE_LOCK = 10000;
+    private static readonly LOCK_RETRY = new Int32Array(new SharedArrayBuffer(4));
+
+    private readonly filePath: string;
+    private readonly lockPath: string;
+    private loadedInode?: number;
+    private loadedBytes = 0;
+    private locked = false;
+
+    /**
+     * Creates a file-backed revocation store, loading any existing entries
+     * @param filePath Path to the revocation log file
+     * @param options.pruneInterval Minimum time in milliseconds between prunes (default 60000)
+     * @throws {HelixError} If the file exists but cannot be read
+     */
+    constructor(filePath: string, options: { pruneInterval?: number } = {}) {
+        super(options);
+        this.filePath = filePath;
+        this.lockPath = `${filePath}.lock`;
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        } catch (error) {
+            throw HelixFileRevocationStore.storeError('load', error);
+        }
+        this.refresh();
+    }
+
+    public revoke(jti: string, expiresAt?: Date): void {
+        this.withLock(() => {
+            this.refresh();
+            this.append(jti, expiresAt);
+            super.revoke(jti, expiresAt);
+        });
+    }
+
+    public isRevoked(jti: string): boolean {
+        this.refresh();
+        return super.isRevoked(jti);
+    }
+
+    public consume(jti: string, expiresAt?: Date): boolean {
+        return this.withLock(() => {
+            if (this.isRevoked(jti)) {
+                return false;
+            }
+            this.append(jti, expiresAt);
+            super.revoke(jti, expiresAt);
+            return true;
+        });
+    }
+
+    /**
+     * Removes expired entries and rewrites the file with the remaining ones
+     * @returns The number of removed entries
+     */
+    public prune(): number {
+        return this.withLock(() => {
+            this.refresh();
+            const removed = super.prune();
+            const lines = [...this.entries].map(([jti, exp]) =>
+                JSON.stringify({ jti, exp: exp === Infinity ? null : exp }) + '\n'
+            );
+
+            // Write to a temporary file first so a crash never leaves a truncated log
+            const tempPath = `${this.filePath}.tmp`;
+            fs.writeFileSync(tempPath, lines.join(''));
+            fs.renameSync(tempPath, this.filePath);
+
+            const stat = fs.statSync(this.filePath);
+            this.loadedInode = stat.ino;
+            this.loadedBytes = stat.size;
+            return removed;
+        });
+    }
+
+    /**
+     * Appends an entry to the file; must be called while holding the lock and after a refresh
+     */
+    private append(jti: string, expiresAt?: Date): void {
+        const line = JSON.stringify({ jti, exp: expiresAt ? expiresAt.getTime() : null }) + '\n';
+        fs.appendFileSync(this.filePath, line);
+        this.loadedBytes += Buffer.byteLength(line);
+        if (this.loadedInode === undefined) {
+            this.loadedInode = fs.statSync(this.filePath).ino;
+        }
+    }
+
+    /**
+     * Loads entries written since the last refresh, by this or another process
+     * Starts over when the file was replaced by a prune or removed.
+     * @throws {HelixError} If the file exists but cannot be read
+     */
+    private refresh(): void {
+        let content: Buffer;
+        try {
+            let stat: fs.Stats;
+            try {
+                stat = fs.statSync(this.filePath);
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+                if (this.loadedInode !== undefined) {
+                    this.entries.clear();
+                    this.loadedInode = undefined;
+                    this.loadedBytes = 0;
+                }
+                return;
+            }
+
+            if (stat.ino !== this.loadedInode || stat.size < this.loadedBytes) {
+                this.entries.clear();
+                this.loadedInode = stat.ino;
+                this.loadedBytes = 0;
+            }
+            if (stat.size === this.loadedBytes) return;
+
+            content = Buffer.alloc(stat.size - this.loadedBytes);
+            const fd = fs.openSync(this.filePath, 'r');
+            try {
+                fs.readSync(fd, content, 0, content.length, this.loadedBytes);
+            } finally {
+                fs.closeSync(fd);
+            }
+        } catch (error) {
+            throw HelixFileRevocationStore.storeError('load', error);
+        }
+
+        // A trailing line without a newline is still being written and is read next time
+        const complete = content.subarray(0, content.lastIndexOf('\n') + 1);
+        this.loadedBytes += complete.length;
+
+        for (const line of complete.toString('utf8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const { jti, exp } = JSON.parse(line) as { jti: string; exp: number | null };
+                this.entries.set(jti, exp ?? Infinity);
+            } catch {
+                // Skip a corrupted line
+            }
+        }
+    }
+
+    /**
+     * Runs a function while holding the lock file; re-entrant within this instance
+     * @throws {HelixError} If the lock cannot be acquired
+     */
+    private withLock<T>(fn: () => T): T {
+        if (this.locked) {
+            return fn();
+        }
+
+        this.acquireLock();
+        this.locked = true;
+        try {
+            return fn();
+        } finally {
+            this.locked = false;
+            fs.rmSync(this.lockPath, { force: true });
+        }
+    }
+
+    private acquireLock(): void {
+        const deadline = Date.now() + 2 * HelixFileRevocationStore.STALE_LOCK;
+        for (;;) {
+            try {
+                fs.closeSync(fs.openSync(this.lockPath, 'wx'));
+                return;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw HelixFileRevocationStore.storeError('lock', error);
+                }
+            }
+
+            try {
+                if (Date.now() - fs.statSync(this.lockPath).mtimeMs > HelixFileRevocationStore.STALE_LOCK) {
+                    fs.rmSync(this.lockPath, { force: true });
+                    continue;
+                }
+            } catch {
+                continue; // Released between the open and the stat
+            }
+
+            if (Date.now() > deadline) {
+                throw new HelixError(`Timed out waiting for revocation store lock ${this.lockPath}`);
+            }
+            // Sleep without spinning; the store API is synchronous
+            Atomics.wait(HelixFileRevocationStore.LOCK_RETRY, 0, 0, 5);
+        }
+    }
+
+    private static storeError(action: 'load' | 'lock', error: unknown): HelixError {
+        return new HelixError(`Failed to ${action} revocation store: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
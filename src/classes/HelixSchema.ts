@@ -0,0 +1,114 @@
+import { HelixValidationError } from './HelixError';
+
+/**
+ * Validates a decoded token payload and narrows it to `T`
+ *
+ * Either a function that returns the validated payload and throws on failure, or
+ * an object with a `parse` method (such as a zod schema). Errors carrying zod-style
+ * `issues` are reported with the failing field path.
+ */
+export type HelixSchema<T> = ((payload: unknown) => T) | { parse(payload: unknown): T };
+
+/**
+ * Upgrades a payload from one version to the next
+ */
+export type HelixMigration = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+interface HelixFieldTypes {
+    string: string;
+    number: number;
+    boolean: boolean;
+    object: Record<string, unknown>;
+    array: unknown[];
+    'string[]': string[];
+    'number[]': number[];
+    'boolean[]': boolean[];
+}
+
+/**
+ * Built-in field types understood by {@link helixSchema}
+ */
+export type HelixFieldType = keyof HelixFieldTypes;
+
+/**
+ * A field specification: a type name, optionally suffixed with `?`, or a predicate
+ */
+export type HelixFieldSpec = HelixFieldType | `${HelixFieldType}?` | ((value: unknown) => boolean);
+
+type RequiredKeys<S> = { [K in keyof S]: S[K] extends `${string}?` ? never : K }[keyof S];
+type OptionalKeys<S> = { [K in keyof S]: S[K] extends `${string}?` ? K : never }[keyof S];
+type FieldValue<F> =
+    F extends `${infer Base}?` ? (Base extends HelixFieldType ? HelixFieldTypes[Base] : never) :
+    F extends HelixFieldType ? HelixFieldTypes[F] :
+    F extends (value: unknown) => value is infer Guarded ? Guarded :
+    unknown;
+
+/**
+ * The payload type described by a field specification map
+ */
+export type HelixInfer<S extends Record<string, HelixFieldSpec>> =
+    { [K in RequiredKeys<S>]: FieldValue<S[K]> } & { [K in OptionalKeys<S>]?: FieldValue<S[K]> };
+
+/**
+ * Builds a payload validator from a map of field specifications
+ * Unlisted fields (including registered claims) are allowed and kept.
+ * @param shape Field names mapped to their expected types
+ * @returns A validator usable as the `schema` option of `verifyToken`
+ * @example
+ * const session = helixSchema({ userId: 'string', roles: 'string[]', impersonatedBy: 'string?' });
+ * helix.verifyToken(token, { schema: session }); // { userId: string; roles: string[]; impersonatedBy?: string }
+ */
+export function helixSchema<S extends Record<string, HelixFieldSpec>>(shape: S): HelixSchema<HelixInfer<S>> {
+    return (payload: unknown) => {
+        if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+            throw new HelixValidationError('', 'expected an object');
+        }
+
+        const record = payload as Record<string, unknown>;
+        for (const [field, spec] of Object.entries(shape)) {
+            const value = record[field];
+
+            if (typeof spec === 'function') {
+                if (!spec(value)) {
+                    throw new HelixValidationError(field, 'failed validation');
+                }
+                continue;
+            }
+
+            const optional = spec.endsWith('?');
+            const type = (optional ? spec.slice(0, -1) : spec) as HelixFieldType;
+            if (value === undefined) {
+                if (optional) continue;
+                throw new HelixValidationError(field, 'is required');
+            }
+            if (!matchesType(value, type)) {
+                throw new HelixValidationError(field, `expected ${type}`);
+            }
+        }
+
+        return payload as HelixInfer<S>;
+    };
+}
+
+/**
+ * Checks a value against a built-in field type
+ * @param value The value to check
+ * @param type The expected type
+ * @returns True if the value matches
+ */
+function matchesType(value: unknown, type: HelixFieldType): boolean {
+    switch (type) {
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'string[]':
+        case 'number[]':
+        case 'boolean[]': {
+            const itemType = type.slice(0, -2);
+            return Array.isArray(value) && value.every(item => typeof item === itemType);
+        }
+        default:
+            return typeof value === type;
+    }
+}
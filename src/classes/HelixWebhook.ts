@@ -0,0 +1,333 @@
+import crypto from 'crypto';
+import { HelixError, HelixWebhookError } from './HelixError';
+import { HelixRevocationStore } from './HelixRevocationStore';
+
+/**
+ * Request headers as provided by Node's `http` module or the Fetch API
+ */
+export type HelixWebhookHeaders = Record<string, string | string[] | undefined> | Headers;
+
+/**
+ * The parts of a webhook request that are signed
+ */
+export interface HelixWebhookMessage {
+    /** Raw request body; must be the exact bytes received, not re-serialized JSON */
+    body: string | Buffer;
+    /** Message ID header value, if the scheme uses one */
+    id?: string;
+    /** Timestamp header value as sent, if the scheme uses one */
+    timestamp?: string;
+}
+
+/**
+ * Options for {@link HelixWebhook}
+ */
+export interface HelixWebhookOptions {
+    /** Shared secret, or several to accept during rotation (the first one signs) */
+    secret: string | string[];
+    /** Header carrying the signature */
+    signatureHeader: string;
+    /** HMAC digest algorithm, defaults to `sha256` */
+    algorithm?: 'sha1' | 'sha256' | 'sha512';
+    /** Signature encoding, defaults to `hex` */
+    encoding?: 'hex' | 'base64';
+    /** Text preceding the signature in the header, e.g. `sha256=` */
+    signaturePrefix?: string;
+    /** Header carrying a unique message ID, used for duplicate detection */
+    idHeader?: string;
+    /** Header carrying the send time, used for the replay window */
+    timestampHeader?: string;
+    /** Format of the timestamp header, defaults to `iso` */
+    timestampFormat?: 'iso' | 'unix';
+    /** Replay window in seconds around the timestamp (default 600) */
+    tolerance?: number;
+    /** Builds the signed content from the message, defaults to the raw body */
+    payload?: (message: HelixWebhookMessage) => string | Buffer;
+    /** Store used to reject message IDs that were already delivered */
+    replayStore?: HelixRevocationStore;
+}
+
+/**
+ * Result of a successful webhook verification
+ */
+export interface HelixWebhookVerification {
+    /** The message ID, when the scheme has one */
+    id?: string;
+    /** When the message was sent, when the scheme has a timestamp */
+    timestamp?: Date;
+}
+
+/**
+ * HelixWebhook - HMAC signing and verification of webhook requests
+ *
+ * Verification checks, in order:
+ * - The signature header matches the HMAC of the signed content (compared in constant time)
+ * - The timestamp, if configured, lies within the replay window
+ * - The message ID, if configured with a replay store, has not been seen before
+ *
+ * Presets are available for Twitch EventSub and WebSub (YouTube PubSubHubbub).
+ */
+export class HelixWebhook {
+    private readonly secrets: Buffer[];
+    private readonly options: HelixWebhookOptions;
+    private readonly tolerance: number;
+
+    /**
+     * Creates a webhook verifier and signer
+     * @param options Secret and header conventions of the webhook scheme
+     * @throws {HelixError} If no secret is given or the timestamp options are inconsistent
+     */
+    constructor(options: HelixWebhookOptions) {
+        this.secrets = [options.secret].flat().map(secret => Buffer.from(secret));
+        if (this.secrets.length === 0 || this.secrets.some(secret => secret.length === 0)) {
+            throw new HelixError('Webhook secret must not be empty');
+        }
+
+        this.options = options;
+        this.tolerance = options.tolerance ?? 600;
+    }
+
+    /**
+     * Preset for Twitch EventSub
+     * Signs `message id + timestamp + body` with HMAC-SHA256 in `Twitch-Eventsub-Message-Signature`
+     * and rejects messages older than 10 minutes.
+     * @param secret The secret given when creating the subscription
+     * @param options.replayStore Store used to reject redelivered message IDs
+     * @param options.tolerance Replay window in seconds (default 600, as recommended by Twitch)
+     * @returns A webhook verifier
+     */
+    public static twitch(
+        secret: string | string[],
+        options: { replayStore?: HelixRevocationStore; tolerance?: number } = {}
+    ): HelixWebhook {
+        return new HelixWebhook({
+            secret,
+            signatureHeader: 'Twitch-Eventsub-Message-Signature',
+            signaturePrefix: 'sha256=',
+            idHeader: 'Twitch-Eventsub-Message-Id',
+            timestampHeader: 'Twitch-Eventsub-Message-Timestamp',
+            timestampFormat: 'iso',
+            payload: ({ id, timestamp, body }) => Buffer.concat([Buffer.from(`${id}${timestamp}`), Buffer.from(body)]),
+            ...options
+        });
+    }
+
+    /**
+     * Preset for WebSub (PubSubHubbub) content distribution, as used by YouTube
+     * Signs the body in `X-Hub-Signature` as `<algorithm>=<hex>`.
+     * @param secret The `hub.secret` given when subscribing
+     * @param algorithm The digest algorithm the hub uses (YouTube uses `sha1`)
+     * @returns A webhook verifier
+     */
+    public static websub(secret: string | string[], algorithm: 'sha1' | 'sha256' | 'sha512' = 'sha1'): HelixWebhook {
+        return new HelixWebhook({
+            secret,
+            signatureHeader: 'X-Hub-Signature',
+            signaturePrefix: `${algorithm}=`,
+            algorithm
+        });
+    }
+
+    /**
+     * Verifies an incoming webhook request
+     * @param headers The request headers
+     * @param body The raw request body
+     * @returns The message ID and timestamp, when the scheme has them
+     * @throws {HelixWebhookError} If a header is missing, the signature is invalid, the timestamp
+     * is outside the replay window or the message was already delivered
+     * @throws {HelixError} If the replay store is asynchronous; use {@link verifyAsync} instead
+     */
+    public verify(headers: HelixWebhookHeaders, body: string | Buffer): HelixWebhookVerification {
+        const verification = this.authenticate(headers, body);
+        const store = this.options.replayStore;
+        if (verification.id === undefined || !store) {
+            return verification;
+        }
+
+        // Only authentic messages are recorded so forged requests cannot block real ones.
+        // Probe with isRevoked first so an asynchronous store is detected before the ID is recorded.
+        const delivered = store.isRevoked(verification.id);
+        if (HelixWebhook.isThenable(delivered)) {
+            Promise.resolve(delivered).catch(() => undefined);
+            throw new HelixError('Replay store is asynchronous; use verifyAsync');
+        }
+        const consumed = delivered ? false : store.consume(verification.id, this.replayExpiry(verification));
+        if (HelixWebhook.isThenable(consumed)) {
+            Promise.resolve(consumed).catch(() => undefined);
+            throw new HelixError('Replay store is asynchronous; use verifyAsync');
+        }
+        if (!consumed) {
+            throw HelixWebhook.duplicateError(verification.id);
+        }
+        return verification;
+    }
+
+    /**
+     * Verifies an incoming webhook request, awaiting an asynchronous replay store
+     * @param headers The request headers
+     * @param body The raw request body
+     * @returns The message ID and timestamp, when the scheme has them
+     * @throws {HelixWebhookError} If a header is missing, the signature is invalid, the timestamp
+     * is outside the replay window or the message was already delivered
+     */
+    public async verifyAsync(headers: HelixWebhookHeaders, body: string | Buffer): Promise<HelixWebhookVerification> {
+        const verification = this.authenticate(headers, body);
+        const store = this.options.replayStore;
+        if (verification.id !== undefined && store && !await store.consume(verification.id, this.replayExpiry(verification))) {
+            throw HelixWebhook.duplicateError(verification.id);
+        }
+        return verification;
+    }
+
+    /**
+     * Checks the headers, signature and replay window of a request
+     * @param headers The request headers
+     * @param body The raw request body
+     * @returns The message ID and timestamp, when the scheme has them
+     * @throws {HelixWebhookError} If a header is missing, the signature is invalid or the
+     * timestamp is outside the replay window
+     */
+    private authenticate(headers: HelixWebhookHeaders, body: string | Buffer): HelixWebhookVerification {
+        const signature = HelixWebhook.getHeader(headers, this.options.signatureHeader);
+        const id = this.options.idHeader ? HelixWebhook.getHeader(headers, this.options.idHeader) : undefined;
+        const timestamp = this.options.timestampHeader
+            ? HelixWebhook.getHeader(headers, this.options.timestampHeader)
+            : undefined;
+
+        if (signature === undefined) {
+            throw new HelixWebhookError(`Missing webhook header ${this.options.signatureHeader}`, 'header');
+        }
+        if (this.options.idHeader && id === undefined) {
+            throw new HelixWebhookError(`Missing webhook header ${this.options.idHeader}`, 'header');
+        }
+        if (this.options.timestampHeader && timestamp === undefined) {
+            throw new HelixWebhookError(`Missing webhook header ${this.options.timestampHeader}`, 'header');
+        }
+
+        const content = this.signedContent({ body, id, timestamp });
+        const provided = Buffer.from(signature);
+        const valid = this.secrets.some(secret => {
+            const expected = Buffer.from(this.computeSignature(secret, content));
+            return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+        });
+        if (!valid) {
+            throw new HelixWebhookError('Invalid webhook signature', 'signature');
+        }
+
+        const sentAt = timestamp !== undefined ? this.parseTimestamp(timestamp) : undefined;
+        if (sentAt && Math.abs(Date.now() - sentAt.getTime()) > this.tolerance * 1000) {
+            throw new HelixWebhookError(`Webhook timestamp ${timestamp} is outside the replay window`, 'timestamp');
+        }
+
+        return { id, timestamp: sentAt };
+    }
+
+    /**
+     * When the replay store may forget a message ID
+     * @param verification The authenticated message ID and timestamp
+     * @returns The end of the replay window, or undefined to keep the ID forever
+     */
+    private replayExpiry({ timestamp }: HelixWebhookVerification): Date | undefined {
+        return timestamp ? new Date(timestamp.getTime() + this.tolerance * 1000) : undefined;
+    }
+
+    private static duplicateError(id: string): HelixWebhookError {
+        return new HelixWebhookError(`Webhook message ${id} was already delivered`, 'duplicate');
+    }
+
+    /**
+     * Checks whether a store result is a promise or another thenable
+     */
+    private static isThenable<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+        return typeof (value as PromiseLike<T> | undefined)?.then === 'function';
+    }
+
+    /**
+     * Signs an outgoing webhook request with the first configured secret
+     * @param body The exact request body that will be sent
+     * @param options.id Message ID to send, generated if the scheme uses one and none is given
+     * @param options.timestamp Send time, defaults to now
+     * @returns Headers to add to the request
+     */
+    public sign(body: string | Buffer, options: { id?: string; timestamp?: Date } = {}): Record<string, string> {
+        const headers: Record<string, string> = {};
+
+        let id: string | undefined;
+        if (this.options.idHeader) {
+            id = options.id ?? crypto.randomUUID();
+            headers[this.options.idHeader] = id;
+        }
+
+        let timestamp: string | undefined;
+        if (this.options.timestampHeader) {
+            const date = options.timestamp ?? new Date();
+            timestamp = this.options.timestampFormat === 'unix'
+                ? String(Math.floor(date.getTime() / 1000))
+                : date.toISOString();
+            headers[this.options.timestampHeader] = timestamp;
+        }
+
+        headers[this.options.signatureHeader] = this.computeSignature(this.secrets[0], this.signedContent({ body, id, timestamp }));
+        return headers;
+    }
+
+    /**
+     * Builds the content covered by the signature
+     * @param message The message parts
+     * @returns The signed content
+     */
+    private signedContent(message: HelixWebhookMessage): string | Buffer {
+        return this.options.payload ? this.options.payload(message) : message.body;
+    }
+
+    /**
+     * Computes the signature header value for some content
+     * @param secret The HMAC secret
+     * @param content The signed content
+     * @returns The prefixed, encoded signature
+     */
+    private computeSignature(secret: Buffer, content: string | Buffer): string {
+        const digest = crypto
+            .createHmac(this.options.algorithm ?? 'sha256', secret)
+            .update(content)
+            .digest(this.options.encoding ?? 'hex');
+        return (this.options.signaturePrefix ?? '') + digest;
+    }
+
+    /**
+     * Parses the timestamp header
+     * @param timestamp The header value
+     * @returns The send time
+     * @throws {HelixWebhookError} If the timestamp is malformed
+     */
+    private parseTimestamp(timestamp: string): Date {
+        const time = this.options.timestampFormat === 'unix'
+            ? (/^\d+$/.test(timestamp) ? Number(timestamp) * 1000 : NaN)
+            : Date.parse(timestamp);
+        if (Number.isNaN(time)) {
+            throw new HelixWebhookError(`Invalid webhook timestamp: ${timestamp}`, 'timestamp');
+        }
+        return new Date(time);
+    }
+
+    /**
+     * Reads a header case-insensitively
+     * @param headers The request headers
+     * @param name The header name
+     * @returns The header value, or undefined if absent or repeated
+     */
+    private static getHeader(headers: HelixWebhookHeaders, name: string): string | undefined {
+        if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+            return headers.get(name) ?? undefined;
+        }
+
+        const lowerName = name.toLowerCase();
+        for (const [key, value] of Object.entries(headers)) {
+            if (key.toLowerCase() === lowerName) {
+                // Repeated signature headers are ambiguous; treat them as missing
+                return typeof value === 'string' ? value : undefined;
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,266 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { HelixError } from './HelixError';
+
+/**
+ * An exclusively held worker ID
+ */
+export interface HelixWorkerLease {
+    /** The leased worker ID */
+    readonly workerId: number;
+
+    /**
+     * Set once another process may hold the worker ID; Helix stops generating IDs with it
+     */
+    readonly lostError?: Error;
+
+    /**
+     * Gives the worker ID back so another process can use it
+     */
+    release(): Promise<void>;
+}
+
+/**
+ * Hands out worker IDs that no other live process holds
+ */
+export interface HelixWorkerLeaseProvider {
+    /**
+     * Leases a free worker ID
+     * @param slots The number of worker IDs the layout allows (e.g. 1024)
+     * @returns The lease, kept alive until released
+     * @throws {HelixError} If every worker ID is taken
+     */
+    acquire(slots: number): Promise<HelixWorkerLease>;
+}
+
+/**
+ * Contents of a lock file
+ */
+interface LockFile {
+    token: string;
+    pid: number;
+    hostname: string;
+}
+
+/**
+ * File-lock based worker ID leases for processes sharing a host or volume
+ *
+ * Each worker ID is a lock file created with O_EXCL in a shared directory. Held
+ * leases are renewed by touching their file; a file that has not been touched
+ * within the TTL belongs to a dead process and can be taken over.
+ */
+export class HelixFileLeaseProvider implements HelixWorkerLeaseProvider {
+    private readonly directory: string;
+    private readonly ttl: number;
+    private readonly renewInterval: number;
+    private readonly onLost?: (workerId: number, error: Error) => void;
+
+    /**
+     * Creates a file lease provider
+     * @param directory Directory holding the lock files, created if missing
+     * @param options.ttl Milliseconds after which an unrenewed lease is considered stale (default 30000)
+     * @param options.renewInterval Milliseconds between renewals (default a third of the TTL)
+     * @param options.onLost Called when a held lease was taken over or its file removed; the Helix
+     * instance using it throws on further ID generation either way
+     */
+    constructor(
+        directory: string,
+        options: {
+            ttl?: number;
+            renewInterval?: number;
+            onLost?: (workerId: number, error: Error) => void;
+        } = {}
+    ) {
+        this.directory = directory;
+        this.ttl = options.ttl ?? 30000;
+        this.renewInterval = options.renewInterval ?? Math.floor(this.ttl / 3);
+        this.onLost = options.onLost;
+
+        if (this.renewInterval >= this.ttl) {
+            throw new HelixError('Lease renew interval must be shorter than the TTL');
+        }
+    }
+
+    public async acquire(slots: number): Promise<HelixWorkerLease> {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+
+        const lock: LockFile = {
+            token: crypto.randomBytes(16).toString('hex'),
+            pid: process.pid,
+            hostname: os.hostname()
+        };
+
+        // Start at a host/pid-derived slot so concurrent starters rarely contend
+        const start = crypto.createHash('sha256').update(`${lock.hostname}:${lock.pid}`).digest().readUInt32BE(0) % slots;
+
+        for (let i = 0; i < slots; i++) {
+            const workerId = (start + i) % slots;
+            if (await this.tryLock(workerId, lock)) {
+                return new FileWorkerLease(workerId, this.lockPath(workerId), lock.token, this.renewInterval, this.ttl, this.onLost);
+            }
+        }
+
+        throw new HelixError(`All ${slots} worker IDs are leased in ${this.directory}`);
+    }
+
+    /**
+     * Attempts to create the lock file for a worker ID, taking over stale locks
+     * @param workerId The worker ID to lock
+     * @param lock The lock file contents
+     * @returns True if the lock was acquired
+     */
+    private async tryLock(workerId: number, lock: LockFile): Promise<boolean> {
+        const lockPath = this.lockPath(workerId);
+
+        if (await this.createLock(lockPath, lock)) {
+            return true;
+        }
+
+        let stats: fs.Stats;
+        try {
+            stats = await fs.promises.stat(lockPath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            return this.createLock(lockPath, lock);
+        }
+
+        if (Date.now() - stats.mtimeMs < this.ttl) {
+            return false;
+        }
+
+        // Move the stale lock aside atomically; only one contender can win the rename
+        const stalePath = `${lockPath}.${lock.token}.stale`;
+        try {
+            await fs.promises.rename(lockPath, stalePath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+            throw error;
+        }
+
+        // Another contender may have replaced the stale lock just before our rename; put it back
+        const moved = await fs.promises.stat(stalePath);
+        if (Date.now() - moved.mtimeMs < this.ttl) {
+            await fs.promises.link(stalePath, lockPath).catch(() => undefined);
+            await fs.promises.unlink(stalePath);
+            return false;
+        }
+
+        await fs.promises.unlink(stalePath);
+        return this.createLock(lockPath, lock);
+    }
+
+    /**
+     * Exclusively creates a lock file
+     * @param lockPath The lock file path
+     * @param lock The lock file contents
+     * @returns False if the file already exists
+     */
+    private async createLock(lockPath: string, lock: LockFile): Promise<boolean> {
+        try {
+            await fs.promises.writeFile(lockPath, JSON.stringify(lock), { flag: 'wx' });
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+            throw error;
+        }
+    }
+
+    private lockPath(workerId: number): string {
+        return path.join(this.directory, `worker-${workerId}.lock`);
+    }
+}
+
+/**
+ * A lease held through a lock file, renewed on a timer until released
+ */
+class FileWorkerLease implements HelixWorkerLease {
+    private readonly timer: NodeJS.Timeout;
+    private released = false;
+    private lost?: Error;
+    private renewedAt = Date.now();
+
+    constructor(
+        public readonly workerId: number,
+        private readonly lockPath: string,
+        private readonly token: string,
+        renewInterval: number,
+        private readonly ttl: number,
+        private readonly onLost?: (workerId: number, error: Error) => void
+    ) {
+        this.timer = setInterval(() => void this.renew(), renewInterval);
+        this.timer.unref();
+
+        // Best effort cleanup on normal process exit; crashed processes go stale after the TTL
+        process.once('exit', this.releaseSync);
+    }
+
+    /**
+     * Set when the lock file was taken over, or when renewals stalled (e.g. a blocked event
+     * loop) long enough that another process may have taken it over
+     */
+    public get lostError(): Error | undefined {
+        if (!this.lost && !this.released && Date.now() - this.renewedAt >= this.ttl) {
+            return new HelixError(`Lease for worker ID ${this.workerId} was not renewed within its TTL`);
+        }
+        return this.lost;
+    }
+
+    public async release(): Promise<void> {
+        if (this.released) return;
+        this.stop();
+
+        if (await this.isOwned()) {
+            await fs.promises.unlink(this.lockPath).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Touches the lock file, stopping if the lease is no longer ours
+     */
+    private async renew(): Promise<void> {
+        if (!(await this.isOwned())) {
+            this.lost = new HelixError(`Lease for worker ID ${this.workerId} was lost`);
+            this.stop();
+            this.onLost?.(this.workerId, this.lost);
+            return;
+        }
+
+        const now = new Date();
+        try {
+            await fs.promises.utimes(this.lockPath, now, now);
+            this.renewedAt = now.getTime();
+        } catch {
+            // Retried on the next tick; the lease counts as lost if renewals keep failing past the TTL
+        }
+    }
+
+    private async isOwned(): Promise<boolean> {
+        try {
+            const lock = JSON.parse(await fs.promises.readFile(this.lockPath, 'utf8')) as LockFile;
+            return lock.token === this.token;
+        } catch {
+            return false;
+        }
+    }
+
+    private readonly releaseSync = (): void => {
+        if (this.released) return;
+        this.stop();
+        try {
+            const lock = JSON.parse(fs.readFileSync(this.lockPath, 'utf8')) as LockFile;
+            if (lock.token === this.token) {
+                fs.unlinkSync(this.lockPath);
+            }
+        } catch {
+            // Already gone
+        }
+    };
+
+    private stop(): void {
+        this.released = true;
+        clearInterval(this.timer);
+        process.removeListener('exit', this.releaseSync);
+    }
+}
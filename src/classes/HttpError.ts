@@ -0,0 +1,77 @@
+import { HttpStatus } from '../json/httpCodes';
+import type { HttpRequestConfig } from './fetch';
+
+/**
+ * Why a request failed
+ * - timeout: the request exceeded its timeout
+ * - aborted: the request was cancelled
+ * - network: no response was received (DNS, connection refused, reset, ...)
+ * - http: the server responded with an error status
+ * - parse: the response body could not be parsed
+ */
+export type HttpErrorKind = 'timeout' | 'aborted' | 'network' | 'http' | 'parse';
+
+/**
+ * Error thrown by {@link HttpClient} for failed requests
+ */
+export class HttpError<T = any> extends Error {
+    /** Why the request failed */
+    public readonly kind: HttpErrorKind;
+    /** Response status, when a response was received */
+    public readonly status?: HttpStatus;
+    public readonly statusText?: string;
+    /** Parsed error body: JSON if possible, otherwise text; undefined when empty or unavailable */
+    public readonly data?: T;
+    /** Response headers with lower-cased names; empty when no response was received */
+    public readonly headers: Record<string, string>;
+    /** Request method */
+    public readonly method: string;
+    /** Full request URL */
+    public readonly url: string;
+    /** The request that failed */
+    public readonly config: HttpRequestConfig;
+    /** The underlying error, e.g. the fetch or JSON parse failure */
+    public readonly cause?: unknown;
+
+    constructor(
+        message: string,
+        options: {
+            kind: HttpErrorKind;
+            config: HttpRequestConfig;
+            status?: HttpStatus;
+            statusText?: string;
+            data?: T;
+            headers?: Record<string, string>;
+            cause?: unknown;
+        }
+    ) {
+        super(message);
+        this.name = 'HttpError';
+        this.kind = options.kind;
+        this.status = options.status;
+        this.statusText = options.statusText;
+        this.data = options.data;
+        this.headers = options.headers ?? {};
+        this.method = options.config.method;
+        this.url = options.config.url;
+        this.config = options.config;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * Check whether an error is an HttpError, optionally with a specific status
+ * @param error - The caught error
+ * @param status - Only match errors with this response status
+ * @returns True if the error is an HttpError (with the given status)
+ * @example
+ * try {
+ *   await http.get(`/users/${id}`);
+ * } catch (err) {
+ *   if (isHttpError(err, HttpStatus.NOT_FOUND)) return null;
+ *   throw err;
+ * }
+ */
+export function isHttpError<T = any>(error: unknown, status?: HttpStatus): error is HttpError<T> {
+    return error instanceof HttpError && (status === undefined || error.status === status);
+}
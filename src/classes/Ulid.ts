@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { HelixError } from './HelixError';
+
+/**
+ * Ulid - Monotonic ULID generator
+ *
+ * ULID Structure (128 bits, 26 Crockford base32 characters):
+ * - 48 bits: Timestamp (milliseconds since the Unix epoch)
+ * - 80 bits: Randomness, incremented by one for IDs within the same millisecond
+ *
+ * ULIDs sort lexicographically in creation order.
+ */
+export class Ulid {
+    private static readonly ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+    private static readonly TIME_LENGTH = 10;
+    private static readonly RANDOM_LENGTH = 16;
+    private static readonly MAX_TIME = 2 ** 48 - 1;
+    private static readonly MAX_RANDOM = (BigInt(1) << BigInt(80)) - BigInt(1);
+    private static readonly PATTERN = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i;
+
+    private lastTimestamp = -1;
+    private lastRandom = BigInt(0);
+
+    /**
+     * Generates a ULID that sorts after every ULID previously generated by this instance
+     * If the clock moves backwards, the last timestamp is reused.
+     * @returns The ULID string
+     * @throws {HelixError} If the randomness overflows within a single millisecond
+     */
+    public generate(): string {
+        const now = Date.now();
+
+        if (now <= this.lastTimestamp) {
+            if (this.lastRandom === Ulid.MAX_RANDOM) {
+                throw new HelixError('ULID randomness overflowed within a single millisecond');
+            }
+            this.lastRandom += BigInt(1);
+        } else {
+            this.lastTimestamp = now;
+            this.lastRandom = BigInt('0x' + crypto.randomBytes(10).toString('hex'));
+        }
+
+        return Ulid.encode(this.lastTimestamp, this.lastRandom);
+    }
+
+    /**
+     * Decodes a ULID into its components
+     * @param id The ULID to decode (case-insensitive)
+     * @returns Object containing the timestamp and the hex encoded randomness
+     * @throws {HelixError} If the ULID is malformed
+     */
+    public static decode(id: string): {
+        timestamp: Date;
+        randomness: string;
+    } {
+        if (!Ulid.isValid(id)) {
+            throw new HelixError(`Invalid ULID: ${id}`);
+        }
+
+        const normalized = id.toUpperCase();
+        let timestamp = 0;
+        for (const char of normalized.slice(0, Ulid.TIME_LENGTH)) {
+            timestamp = timestamp * 32 + Ulid.ALPHABET.indexOf(char);
+        }
+
+        let randomness = BigInt(0);
+        for (const char of normalized.slice(Ulid.TIME_LENGTH)) {
+            randomness = randomness * BigInt(32) + BigInt(Ulid.ALPHABET.indexOf(char));
+        }
+
+        return {
+            timestamp: new Date(timestamp),
+            randomness: randomness.toString(16).padStart(20, '0')
+        };
+    }
+
+    /**
+     * Checks whether a string is a well-formed ULID
+     * @param id The string to check
+     * @returns True if the string is 26 Crockford base32 characters within the 128-bit range
+     */
+    public static isValid(id: string): boolean {
+        return Ulid.PATTERN.test(id);
+    }
+
+    /**
+     * Encodes a timestamp and randomness as a ULID string
+     * @param timestamp Milliseconds since the Unix epoch
+     * @param random The 80-bit randomness
+     * @returns The ULID string
+     * @throws {HelixError} If the timestamp does not fit in 48 bits
+     */
+    private static encode(timestamp: number, random: bigint): string {
+        if (timestamp < 0 || timestamp > Ulid.MAX_TIME) {
+            throw new HelixError(`Timestamp ${timestamp} does not fit in a ULID`);
+        }
+
+        let time = '';
+        let remainingTime = timestamp;
+        for (let i = 0; i < Ulid.TIME_LENGTH; i++) {
+            time = Ulid.ALPHABET[remainingTime % 32] + time;
+            remainingTime = Math.floor(remainingTime / 32);
+        }
+
+        let randomness = '';
+        let remainingRandom = random;
+        for (let i = 0; i < Ulid.RANDOM_LENGTH; i++) {
+            randomness = Ulid.ALPHABET[Number(remainingRandom & BigInt(31))] + randomness;
+            remainingRandom >>= BigInt(5);
+        }
+
+        return time + randomness;
+    }
+}
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { HelixError } from './HelixError';
+
+/**
+ * UuidV7 - Monotonic RFC 9562 version 7 UUID generator
+ *
+ * UUIDv7 Structure (128 bits):
+ * - 48 bits: Timestamp (milliseconds since the Unix epoch)
+ * - 4 bits: Version (7)
+ * - 12 bits: rand_a
+ * - 2 bits: Variant (0b10)
+ * - 62 bits: rand_b
+ *
+ * The 74 random bits are treated as one counter that is incremented for UUIDs
+ * within the same millisecond, so UUIDs sort in creation order.
+ */
+export class UuidV7 {
+    private static readonly MAX_RANDOM = (BigInt(1) << BigInt(74)) - BigInt(1);
+    private static readonly PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+    private lastTimestamp = -1;
+    private lastRandom = BigInt(0);
+
+    /**
+     * Generates a UUIDv7 that sorts after every UUID previously generated by this instance
+     * If the clock moves backwards the last timestamp is reused; if the counter overflows
+     * the timestamp advances by one millisecond.
+     * @returns The UUID string in canonical 8-4-4-4-12 form
+     */
+    public generate(): string {
+        const now = Date.now();
+
+        if (now <= this.lastTimestamp) {
+            if (this.lastRandom === UuidV7.MAX_RANDOM) {
+                this.lastTimestamp++;
+                this.lastRandom = UuidV7.randomBits();
+            } else {
+                this.lastRandom += BigInt(1);
+            }
+        } else {
+            this.lastTimestamp = now;
+            this.lastRandom = UuidV7.randomBits();
+        }
+
+        return UuidV7.encode(this.lastTimestamp, this.lastRandom);
+    }
+
+    /**
+     * Decodes a UUIDv7 into its components
+     * @param id The UUID to decode
+     * @returns Object containing the timestamp and the hex encoded 74 random bits
+     * @throws {HelixError} If the string is not a version 7 UUID
+     */
+    public static decode(id: string): {
+        timestamp: Date;
+        randomness: string;
+    } {
+        if (!UuidV7.isValid(id)) {
+            throw new HelixError(`Invalid UUIDv7: ${id}`);
+        }
+
+        const hex = id.replace(/-/g, '');
+        const value = BigInt('0x' + hex);
+        const randA = (value >> BigInt(64)) & BigInt(0xfff);
+        const randB = value & ((BigInt(1) << BigInt(62)) - BigInt(1));
+
+        return {
+            timestamp: new Date(parseInt(hex.slice(0, 12), 16)),
+            randomness: ((randA << BigInt(62)) | randB).toString(16).padStart(19, '0')
+        };
+    }
+
+    /**
+     * Checks whether a string is a well-formed version 7 UUID
+     * @param id The string to check
+     * @returns True if the string is a canonical UUID with version 7 and the RFC variant
+     */
+    public static isValid(id: string): boolean {
+        return UuidV7.PATTERN.test(id);
+    }
+
+    /**
+     * Draws 74 random bits
+     * @returns The random bits, with the top bit cleared to leave room for increments
+     */
+    private static randomBits(): bigint {
+        return BigInt('0x' + crypto.randomBytes(10).toString('hex')) >> BigInt(7);
+    }
+
+    /**
+     * Lays out a timestamp and random bits as a UUID string
+     * @param timestamp Milliseconds since the Unix epoch
+     * @param random The 74 random bits
+     * @returns The UUID string
+     */
+    private static encode(timestamp: number, random: bigint): string {
+        const randA = random >> BigInt(62);
+        const randB = random & ((BigInt(1) << BigInt(62)) - BigInt(1));
+        const value = (BigInt(timestamp) << BigInt(80))
+            | (BigInt(7) << BigInt(76))
+            | (randA << BigInt(64))
+            | (BigInt(2) << BigInt(62))
+            | randB;
+
+        const hex = value.toString(16).padStart(32, '0');
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    }
+}
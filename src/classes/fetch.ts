@@ -1,3 +1,166 @@
+import crypto from 'crypto';
+import { HttpStatus } from '../json/httpCodes';
+import { HttpError } from './HttpError';
+
+/**
+ * When and how often failed requests are retried
+ */
+export interface HttpRetryConfig {
+    /** Total attempts including the first one (default 3) */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds, doubled for each further retry (default 300) */
+    baseDelay?: number;
+    /** Upper bound for the backoff delay in milliseconds (default 10000) */
+    maxDelay?: number;
+    /** Randomize delays between 0 and the backoff delay to spread out retries (default true) */
+    jitter?: boolean;
+    /** Response statuses that are retried (default 408, 429, 500, 502, 503, 504) */
+    statuses?: HttpStatus[];
+    /** Methods that are retried (default GET, HEAD, OPTIONS, PUT, DELETE) */
+    methods?: string[];
+    /** Longest `Retry-After` in milliseconds that is waited for; longer ones fail immediately (default 60000) */
+    maxRetryAfter?: number;
+    /**
+     * Send an idempotency key with POST and PATCH requests and retry them too;
+     * `true` uses the `Idempotency-Key` header, a string names another header
+     */
+    idempotencyKey?: boolean | string;
+}
+
+/**
+ * How the response body is read
+ * - auto: by `Content-Type`: JSON, text for `text/*` and XML, otherwise an ArrayBuffer;
+ *   undefined for empty bodies, 204/205 responses and HEAD requests (default)
+ * - json, text, arrayBuffer, blob: always read the body this way
+ * - stream: the unread body as a web `ReadableStream`
+ * - none: discard the body
+ */
+export type HttpResponseType = 'auto' | 'json' | 'text' | 'arrayBuffer' | 'blob' | 'stream' | 'none';
+
+/**
+ * Converts request data to a body for a specific content type
+ */
+export type HttpSerializer = (data: any) => BodyInit;
+
+/**
+ * Per-request options accepted by every request method
+ */
+export interface HttpRequestOptions {
+    headers?: Record<string, string>;
+    /** Timeout in milliseconds, overrides the client timeout */
+    timeout?: number;
+    /** Retry policy merged over the client's, or `false` to disable retries */
+    retry?: HttpRetryConfig | false;
+    /** How to read the response body (default `auto`) */
+    responseType?: HttpResponseType;
+    /** Resolve with the full {@link HttpResponse} instead of only its data */
+    withResponse?: boolean;
+    /** Cancels the request, including retries and reading the response body */
+    signal?: AbortSignal;
+}
+
+/**
+ * Client-wide settings for {@link HttpClient}
+ */
+export interface HttpClientConfig {
+    /** Prefix for all request URLs */
+    baseURL?: string;
+    /** Headers sent with every request */
+    headers?: Record<string, string>;
+    /** Request timeout in milliseconds (default 30000) */
+    timeout?: number;
+    /** Retry policy for all requests; requests are not retried unless set */
+    retry?: HttpRetryConfig | false;
+}
+
+/**
+ * A request as seen by request interceptors
+ */
+export interface HttpRequestConfig {
+    /** Full request URL, including the base URL */
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    /** Serialized body; Node `Readable` streams are passed through as well */
+    body?: BodyInit | NodeJS.ReadableStream | null;
+    /** Timeout in milliseconds */
+    timeout: number;
+    /** How the response body is read */
+    responseType: HttpResponseType;
+    /** Caller's signal for cancelling the request */
+    signal?: AbortSignal;
+}
+
+/**
+ * A response as seen by response interceptors
+ */
+export interface HttpResponse<T = any> {
+    /** Parsed response body */
+    data: T;
+    status: number;
+    statusText: string;
+    /** Response headers with lower-cased names */
+    headers: Record<string, string>;
+    /** The request that produced this response */
+    config: HttpRequestConfig;
+}
+
+/**
+ * An ordered list of interceptors
+ *
+ * Interceptors run in the order they were added. Each `onFulfilled` receives the
+ * value returned by the previous one; each `onRejected` receives the error thrown
+ * by a previous step and may recover by returning a value or rethrow.
+ */
+export class HttpInterceptorManager<V> {
+    private handlers: Array<{
+        onFulfilled?: (value: V) => V | Promise<V>;
+        onRejected?: (error: any) => V | Promise<V>;
+    }> = [];
+
+    /**
+     * Add an interceptor
+     * @returns A function that removes the interceptor again
+     */
+    public use(
+        onFulfilled?: ((value: V) => V | Promise<V>) | null,
+        onRejected?: ((error: any) => V | Promise<V>) | null
+    ): () => void {
+        const handler = { onFulfilled: onFulfilled ?? undefined, onRejected: onRejected ?? undefined };
+        this.handlers.push(handler);
+        return () => {
+            this.handlers = this.handlers.filter(h => h !== handler);
+        };
+    }
+
+    /**
+     * Remove all interceptors
+     */
+    public clear(): void {
+        this.handlers = [];
+    }
+
+    /**
+     * Chain the interceptors onto a promise
+     * @internal
+     */
+    public run(promise: Promise<V>): Promise<V> {
+        // Iterate over a snapshot so ejecting during a request does not skip handlers
+        return this.handlers.reduce(
+            (chain, { onFulfilled, onRejected }) => chain.then(onFulfilled, onRejected),
+            promise
+        );
+    }
+
+    /**
+     * Copy the interceptors into another manager
+     * @internal
+     */
+    public copyTo(target: HttpInterceptorManager<V>): void {
+        target.handlers = [...this.handlers];
+    }
+}
+
 /**
  * Enhanced HTTP client with convenient methods and rich features
  */
@@ -6,11 +169,46 @@ export class HttpClient {
     private baseURL: string = '';
     private defaultHeaders: Record<string, string> = {};
     private timeout: number = 30000;
+    private retry: HttpRetryConfig | false = false;
+
+    private static readonly RETRY_DEFAULTS: Required<Omit<HttpRetryConfig, 'idempotencyKey'>> = {
+        maxAttempts: 3,
+        baseDelay: 300,
+        maxDelay: 10000,
+        jitter: true,
+        statuses: [
+            HttpStatus.REQUEST_TIMEOUT,
+            HttpStatus.TOO_MANY_REQUESTS,
+            HttpStatus.INTERNAL_SERVER_ERROR,
+            HttpStatus.BAD_GATEWAY,
+            HttpStatus.SERVICE_UNAVAILABLE,
+            HttpStatus.GATEWAY_TIMEOUT
+        ],
+        methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+        maxRetryAfter: 60000
+    };
+
+    private readonly controllers = new Set<AbortController>();
+    private serializers = new Map<string, HttpSerializer>([
+        ['application/json', data => JSON.stringify(data)],
+        ['application/x-www-form-urlencoded', data => new URLSearchParams(data).toString()]
+    ]);
 
-    private constructor() {}
+    /**
+     * Request interceptors can change the URL, headers and body before sending;
+     * response interceptors can transform data or recover from errors
+     */
+    public readonly interceptors = {
+        request: new HttpInterceptorManager<HttpRequestConfig>(),
+        response: new HttpInterceptorManager<HttpResponse>()
+    };
+
+    private constructor(config: HttpClientConfig = {}) {
+        this.configure(config);
+    }
 
     /**
-     * Get singleton instance of HttpClient
+     * Get the shared default instance of HttpClient, exported as `http`
      */
     public static getInstance(): HttpClient {
         if (!HttpClient.instance) {
@@ -20,149 +218,577 @@ export class HttpClient {
     }
 
     /**
-     * Configure global client settings
+     * Create an independent client whose configuration is isolated from other clients
+     * @example
+     * const twitch = HttpClient.create({ baseURL: 'https://api.twitch.tv/helix', headers: { 'Client-Id': clientId } });
+     */
+    public static create(config: HttpClientConfig = {}): HttpClient {
+        return new HttpClient(config);
+    }
+
+    /**
+     * Create a child client that starts from this client's configuration
+     * Headers are merged, a `baseURL` without a scheme is appended to this client's
+     * base URL, and interceptors are copied. Later changes to either client do not
+     * affect the other.
+     * @example
+     * const api = HttpClient.create({ baseURL: 'https://api.vtubers.tv', timeout: 10000 });
+     * const admin = api.extend({ baseURL: '/admin', headers: { Authorization: `Bearer ${token}` } });
+     */
+    public extend(config: HttpClientConfig = {}): HttpClient {
+        const baseURL = config.baseURL !== undefined && !/^[a-z][a-z0-9+.-]*:/i.test(config.baseURL)
+            ? this.baseURL + config.baseURL
+            : config.baseURL ?? this.baseURL;
+
+        const child = new HttpClient({
+            baseURL,
+            headers: { ...this.defaultHeaders, ...config.headers },
+            timeout: config.timeout ?? this.timeout,
+            retry: config.retry ?? this.retry
+        });
+        this.interceptors.request.copyTo(child.interceptors.request);
+        this.interceptors.response.copyTo(child.interceptors.response);
+        child.serializers = new Map(this.serializers);
+        return child;
+    }
+
+    /**
+     * Register a serializer for request data sent with a Content-Type
+     * Plain objects, arrays and other non-binary data are serialized by the serializer
+     * matching the request's `Content-Type` header (default `application/json`).
+     * @returns A function that removes the serializer again
+     * @example
+     * api.registerSerializer('application/x-ndjson', (rows: unknown[]) => rows.map(row => JSON.stringify(row)).join('\n') + '\n');
+     * await api.post('/events/bulk', events, { headers: { 'Content-Type': 'application/x-ndjson' } });
      */
-    public configure(config: {
-        baseURL?: string;
-        headers?: Record<string, string>;
-        timeout?: number;
-    }) {
+    public registerSerializer(contentType: string, serializer: HttpSerializer): () => void {
+        const mediaType = HttpClient.mediaType(contentType);
+        this.serializers.set(mediaType, serializer);
+        return () => {
+            if (this.serializers.get(mediaType) === serializer) {
+                this.serializers.delete(mediaType);
+            }
+        };
+    }
+
+    /**
+     * Abort all in-flight requests of this client, e.g. on shutdown
+     * Aborted requests reject with an {@link HttpError} of kind `aborted`. Child clients
+     * created with `extend()` have their own requests and are not affected.
+     * @param reason Stored as the `cause` of the errors
+     */
+    public abortAll(reason?: unknown): void {
+        for (const controller of this.controllers) {
+            controller.abort(reason);
+        }
+    }
+
+    /**
+     * Configure client settings; only affects this client and clients extended from it afterwards
+     */
+    public configure(config: HttpClientConfig) {
         if (config.baseURL) this.baseURL = config.baseURL;
         if (config.headers) this.defaultHeaders = { ...this.defaultHeaders, ...config.headers };
         if (config.timeout) this.timeout = config.timeout;
+        if (config.retry !== undefined) this.retry = config.retry;
         return this;
     }
 
     /**
      * Make a GET request
      */
+    public get<T = any>(
+        url: string,
+        config: HttpRequestOptions & { params?: Record<string, any>; withResponse: true }
+    ): Promise<HttpResponse<T>>;
+    public get<T = any>(
+        url: string,
+        config?: HttpRequestOptions & { params?: Record<string, any>; withResponse?: false }
+    ): Promise<T>;
     public async get<T = any>(
         url: string,
-        config?: {
+        config?: HttpRequestOptions & {
             params?: Record<string, any>;
-            headers?: Record<string, string>;
-            timeout?: number;
         }
-    ): Promise<T> {
+    ): Promise<T | HttpResponse<T>> {
         const queryString = config?.params ? '?' + new URLSearchParams(config.params).toString() : '';
-        const response = await this.request<T>(`${url}${queryString}`, {
-            method: 'GET',
-            headers: config?.headers,
-            timeout: config?.timeout,
-        });
-        return response;
+        return this.request<T>(`${url}${queryString}`, 'GET', undefined, config);
     }
 
     /**
      * Make a POST request
      */
+    public post<T = any>(url: string, data: any, config: HttpRequestOptions & { withResponse: true }): Promise<HttpResponse<T>>;
+    public post<T = any>(url: string, data?: any, config?: HttpRequestOptions & { withResponse?: false }): Promise<T>;
     public async post<T = any>(
         url: string,
         data?: any,
-        config?: {
-            headers?: Record<string, string>;
-            timeout?: number;
-        }
-    ): Promise<T> {
-        const response = await this.request<T>(url, {
-            method: 'POST',
-            body: JSON.stringify(data),
-            headers: config?.headers,
-            timeout: config?.timeout
-        });
-        return response;
+        config?: HttpRequestOptions
+    ): Promise<T | HttpResponse<T>> {
+        return this.request<T>(url, 'POST', data, config);
     }
 
     /**
      * Make a PUT request
      */
+    public put<T = any>(url: string, data: any, config: HttpRequestOptions & { withResponse: true }): Promise<HttpResponse<T>>;
+    public put<T = any>(url: string, data?: any, config?: HttpRequestOptions & { withResponse?: false }): Promise<T>;
     public async put<T = any>(
         url: string,
         data?: any,
-        config?: {
-            headers?: Record<string, string>;
-            timeout?: number;
-        }
-    ): Promise<T> {
-        const response = await this.request<T>(url, {
-            method: 'PUT',
-            body: JSON.stringify(data),
-            headers: config?.headers,
-            timeout: config?.timeout
-        });
-        return response;
+        config?: HttpRequestOptions
+    ): Promise<T | HttpResponse<T>> {
+        return this.request<T>(url, 'PUT', data, config);
     }
 
     /**
      * Make a DELETE request
      */
+    public delete<T = any>(url: string, config: HttpRequestOptions & { withResponse: true }): Promise<HttpResponse<T>>;
+    public delete<T = any>(url: string, config?: HttpRequestOptions & { withResponse?: false }): Promise<T>;
     public async delete<T = any>(
         url: string,
-        config?: {
-            headers?: Record<string, string>;
-            timeout?: number;
-        }
-    ): Promise<T> {
-        const response = await this.request<T>(url, {
-            method: 'DELETE',
-            headers: config?.headers,
-            timeout: config?.timeout
-        });
-        return response;
+        config?: HttpRequestOptions
+    ): Promise<T | HttpResponse<T>> {
+        return this.request<T>(url, 'DELETE', undefined, config);
     }
 
     /**
      * Make a PATCH request
      */
+    public patch<T = any>(url: string, data: any, config: HttpRequestOptions & { withResponse: true }): Promise<HttpResponse<T>>;
+    public patch<T = any>(url: string, data?: any, config?: HttpRequestOptions & { withResponse?: false }): Promise<T>;
     public async patch<T = any>(
         url: string,
         data?: any,
-        config?: {
-            headers?: Record<string, string>;
-            timeout?: number;
-        }
-    ): Promise<T> {
-        const response = await this.request<T>(url, {
-            method: 'PATCH',
-            body: JSON.stringify(data),
-            headers: config?.headers,
-            timeout: config?.timeout
-        });
-        return response;
+        config?: HttpRequestOptions
+    ): Promise<T | HttpResponse<T>> {
+        return this.request<T>(url, 'PATCH', data, config);
+    }
+
+    /**
+     * Make a request with full configuration, running it through the interceptors
+     */
+    private async request<T>(
+        url: string,
+        method: string,
+        data: unknown,
+        options: HttpRequestOptions = {}
+    ): Promise<T | HttpResponse<T>> {
+        const { body, contentType } = this.serializeBody(data, options.headers);
+
+        // The serialized body decides the Content-Type, so drop any configured ones
+        const headers = Object.fromEntries(
+            Object.entries({ ...this.defaultHeaders, ...options.headers })
+                .filter(([name]) => name.toLowerCase() !== 'content-type')
+        );
+        if (contentType) headers['Content-Type'] = contentType;
+
+        const requestConfig: HttpRequestConfig = {
+            url: this.baseURL + url,
+            method,
+            headers,
+            body,
+            timeout: options.timeout || this.timeout,
+            responseType: options.responseType ?? 'auto',
+            signal: options.signal
+        };
+
+        const retry = options.retry === false || this.retry === false && options.retry === undefined
+            ? false
+            : { ...this.retry || {}, ...options.retry };
+
+        const sent = this.interceptors.request
+            .run(Promise.resolve(requestConfig))
+            .then(finalConfig => this.dispatch(finalConfig, retry));
+        const response = await this.interceptors.response.run(sent);
+        return options.withResponse ? response : response.data;
+    }
+
+    /**
+     * Turn request data into a body and the Content-Type to send it with
+     * FormData, URLSearchParams, Blobs, binary data and streams are sent as they are;
+     * other data is serialized by the serializer registered for the Content-Type.
+     * @throws {Error} If no serializer is registered for the Content-Type
+     */
+    private serializeBody(
+        data: unknown,
+        requestHeaders: Record<string, string> = {}
+    ): { body?: HttpRequestConfig['body']; contentType?: string } {
+        const requested = HttpClient.findHeader(requestHeaders, 'Content-Type');
+        const configured = requested ?? HttpClient.findHeader(this.defaultHeaders, 'Content-Type');
+
+        if (data === undefined) {
+            return { contentType: requested };
+        }
+        if (typeof FormData !== 'undefined' && data instanceof FormData) {
+            // fetch sets multipart/form-data with the boundary itself
+            return { body: data };
+        }
+        if (data instanceof URLSearchParams) {
+            return { body: data, contentType: requested ?? 'application/x-www-form-urlencoded;charset=UTF-8' };
+        }
+        if (typeof Blob !== 'undefined' && data instanceof Blob) {
+            return { body: data, contentType: requested ?? (data.type || 'application/octet-stream') };
+        }
+        if (data instanceof ArrayBuffer || ArrayBuffer.isView(data) || HttpClient.isStream(data)) {
+            return { body: data as BodyInit, contentType: requested ?? 'application/octet-stream' };
+        }
+
+        const contentType = configured ?? 'application/json';
+        const mediaType = HttpClient.mediaType(contentType);
+
+        // Strings with a non-JSON Content-Type are already serialized
+        if (typeof data === 'string' && !HttpClient.isJson(mediaType)) {
+            return { body: data, contentType };
+        }
+
+        const serializer = this.serializers.get(mediaType)
+            ?? (HttpClient.isJson(mediaType) ? this.serializers.get('application/json') : undefined);
+        if (!serializer) {
+            throw new Error(`No serializer registered for Content-Type ${contentType}`);
+        }
+        return { body: serializer(data), contentType };
+    }
+
+    private static findHeader(headers: Record<string, string>, name: string): string | undefined {
+        const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+        return key !== undefined ? headers[key] : undefined;
+    }
+
+    private static mediaType(contentType: string): string {
+        return contentType.split(';')[0].trim().toLowerCase();
+    }
+
+    private static isJson(mediaType: string): boolean {
+        return mediaType === 'application/json' || mediaType.endsWith('+json');
+    }
+
+    private static isStream(body: unknown): body is ReadableStream | NodeJS.ReadableStream {
+        return (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream)
+            || (body !== null && typeof body === 'object' && typeof (body as NodeJS.ReadableStream).pipe === 'function');
     }
 
     /**
-     * Make a request with full configuration
+     * Send a request under a controller that the caller's signal and {@link abortAll} can abort
      */
-    private async request<T>(url: string, config: RequestInit & { timeout?: number }): Promise<T> {
+    private async dispatch(config: HttpRequestConfig, retryConfig: HttpRetryConfig | false): Promise<HttpResponse> {
         const controller = new AbortController();
-        const id = setTimeout(() => controller.abort(), config.timeout || this.timeout);
+        const abort = () => controller.abort(config.signal?.reason);
+        if (config.signal?.aborted) {
+            abort();
+        } else {
+            config.signal?.addEventListener('abort', abort, { once: true });
+        }
+        this.controllers.add(controller);
 
+        let release = () => {
+            this.controllers.delete(controller);
+            config.signal?.removeEventListener('abort', abort);
+        };
         try {
-            const response = await fetch(this.baseURL + url, {
-                ...config,
-                headers: {
-                    'Content-Type': 'application/json',
-                    ...this.defaultHeaders,
-                    ...config.headers
-                },
-                signal: controller.signal
-            });
+            const response = retryConfig === false
+                ? await this.send(config, controller.signal)
+                : await this.sendWithRetry(config, retryConfig, controller.signal);
 
-            clearTimeout(id);
+            // A streamed body is read after the request resolves and stays abortable until it ends
+            if (response.data instanceof ReadableStream) {
+                response.data = HttpClient.trackStream(response.data, config, controller.signal, release);
+                release = () => undefined;
+            }
+            return response;
+        } finally {
+            release();
+        }
+    }
 
-            if (!response.ok) {
-                throw new Error(`HTTP Error: ${response.status} - ${response.statusText}`);
+    /**
+     * Wrap a response body stream to run a callback once it is fully read, fails or is cancelled
+     * Reads that fail because the request was aborted error with an {@link HttpError} of kind `aborted`.
+     */
+    private static trackStream(
+        stream: ReadableStream<Uint8Array>,
+        config: HttpRequestConfig,
+        signal: AbortSignal,
+        onSettled: () => void
+    ): ReadableStream<Uint8Array> {
+        const reader = stream.getReader();
+        return new ReadableStream<Uint8Array>({
+            async pull(controller) {
+                try {
+                    const { done, value } = await reader.read();
+                    if (done) {
+                        onSettled();
+                        controller.close();
+                    } else {
+                        controller.enqueue(value);
+                    }
+                } catch (error) {
+                    onSettled();
+                    controller.error(signal.aborted ? HttpClient.abortError(config, signal) : error);
+                }
+            },
+            cancel(reason) {
+                onSettled();
+                return reader.cancel(reason);
             }
+        });
+    }
+
+    /**
+     * Send a request, retrying failed attempts according to the retry policy
+     */
+    private async sendWithRetry(
+        config: HttpRequestConfig,
+        retryConfig: HttpRetryConfig,
+        signal: AbortSignal
+    ): Promise<HttpResponse> {
+        const policy = { ...HttpClient.RETRY_DEFAULTS, ...retryConfig };
+        const method = config.method.toUpperCase();
+        // Streamed bodies are consumed by the first attempt and cannot be replayed
+        let retryable = policy.methods.includes(method) && !HttpClient.isStream(config.body);
+
+        // Retrying non-idempotent requests is only safe when the server can deduplicate them
+        if (retryConfig.idempotencyKey && (method === 'POST' || method === 'PATCH')) {
+            const header = typeof retryConfig.idempotencyKey === 'string' ? retryConfig.idempotencyKey : 'Idempotency-Key';
+            const exists = Object.keys(config.headers).some(name => name.toLowerCase() === header.toLowerCase());
+            config = exists ? config : { ...config, headers: { ...config.headers, [header]: crypto.randomUUID() } };
+            retryable = !HttpClient.isStream(config.body);
+        }
 
-            return await response.json();
+        for (let attempt = 1; ; attempt++) {
+            const canRetry = retryable && attempt < policy.maxAttempts;
+
+            let response: Response;
+            try {
+                response = await this.fetchWithTimeout(config, signal);
+            } catch (error) {
+                const transient = error instanceof HttpError && (error.kind === 'network' || error.kind === 'timeout');
+                if (!canRetry || !transient) {
+                    throw error;
+                }
+                await HttpClient.delay(HttpClient.backoff(policy, attempt), config, signal);
+                continue;
+            }
+
+            if (!response.ok && canRetry && policy.statuses.includes(response.status)) {
+                const retryAfter = HttpClient.retryAfter(response);
+                if (retryAfter === undefined || retryAfter <= policy.maxRetryAfter) {
+                    // Release the connection before waiting
+                    await response.body?.cancel().catch(() => undefined);
+                    await HttpClient.delay(retryAfter ?? HttpClient.backoff(policy, attempt), config, signal);
+                    continue;
+                }
+            }
+
+            return this.parseResponse(response, config, signal);
+        }
+    }
+
+    /**
+     * Send a request once and parse the response
+     */
+    private async send(config: HttpRequestConfig, signal: AbortSignal): Promise<HttpResponse> {
+        return this.parseResponse(await this.fetchWithTimeout(config, signal), config, signal);
+    }
+
+    /**
+     * Call fetch, aborting after the configured timeout or when the request is aborted
+     * @throws {HttpError} With kind `timeout`, `aborted` or `network` if no response was received
+     */
+    private async fetchWithTimeout(config: HttpRequestConfig, signal: AbortSignal): Promise<Response> {
+        const controller = new AbortController();
+        let timedOut = false;
+        const id = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, config.timeout);
+
+        // Left attached so that aborting also cancels reading the response body
+        if (signal.aborted) {
+            controller.abort();
+        } else {
+            signal.addEventListener('abort', () => controller.abort(), { once: true });
+        }
+
+        try {
+            return await fetch(config.url, {
+                method: config.method,
+                headers: config.headers,
+                body: config.body as BodyInit | null | undefined,
+                signal: controller.signal,
+                // Node's fetch requires half-duplex mode to upload streams
+                ...HttpClient.isStream(config.body) && { duplex: 'half' }
+            } as RequestInit);
         } catch (error) {
+            const target = `${config.method} ${config.url}`;
+            if (timedOut) {
+                throw new HttpError(`${target} timed out after ${config.timeout}ms`, { kind: 'timeout', config, cause: error });
+            }
+            if (signal.aborted) {
+                throw HttpClient.abortError(config, signal);
+            }
+            // Node's fetch reports the actual network failure (ECONNREFUSED, ...) as the cause
+            const cause = (error as { cause?: { message?: string } } | undefined)?.cause;
+            const reason = cause?.message ?? (error instanceof Error ? error.message : String(error));
+            throw new HttpError(`${target} failed: ${reason}`, { kind: 'network', config, cause: error });
+        } finally {
             clearTimeout(id);
-            if (error instanceof Error) {
-                throw new Error(`HTTP Error: ${error.message}`);
+        }
+    }
+
+    /**
+     * Turn a fetch response into an HttpResponse, throwing for error statuses
+     * @throws {HttpError} With kind `http` for error statuses or `parse` for malformed bodies
+     */
+    private async parseResponse(response: Response, config: HttpRequestConfig, signal: AbortSignal): Promise<HttpResponse> {
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+            headers[name] = value;
+        });
+        const details = { config, status: response.status, statusText: response.statusText, headers };
+
+        if (!response.ok) {
+            throw new HttpError(
+                `${config.method} ${config.url} failed with ${response.status} ${response.statusText}`,
+                { ...details, kind: 'http', data: await HttpClient.readErrorBody(response) }
+            );
+        }
+
+        return { ...details, data: await HttpClient.readBody(response, config, details, signal) };
+    }
+
+    /**
+     * Read a successful response body according to the response type
+     * @throws {HttpError} With kind `parse` for malformed JSON or `network` if reading fails
+     */
+    private static async readBody(
+        response: Response,
+        config: HttpRequestConfig,
+        details: Pick<HttpError, 'config' | 'status' | 'statusText' | 'headers'>,
+        signal: AbortSignal
+    ): Promise<unknown> {
+        let responseType = config.responseType;
+        const contentType = (response.headers.get('Content-Type') ?? '').toLowerCase();
+
+        if (responseType === 'auto') {
+            const empty = response.status === HttpStatus.NO_CONTENT
+                || response.status === HttpStatus.RESET_CONTENT
+                || config.method.toUpperCase() === 'HEAD';
+            if (empty) {
+                responseType = 'none';
+            } else if (contentType && !/[/+]json\b/.test(contentType)) {
+                responseType = /^text\/|[/+]xml\b|javascript|x-www-form-urlencoded/.test(contentType) ? 'text' : 'arrayBuffer';
+            }
+        }
+
+        let text: string;
+        try {
+            switch (responseType) {
+                case 'none':
+                    await response.body?.cancel().catch(() => undefined);
+                    return undefined;
+                case 'stream':
+                    return response.body;
+                case 'text':
+                    return await response.text();
+                case 'arrayBuffer':
+                    return await response.arrayBuffer();
+                case 'blob':
+                    return await response.blob();
+            }
+            text = await response.text();
+        } catch (error) {
+            if (signal.aborted) {
+                throw HttpClient.abortError(config, signal);
             }
-            throw error;
+            throw new HttpError(
+                `${config.method} ${config.url} failed while reading the response body`,
+                { ...details, kind: 'network', cause: error }
+            );
+        }
+
+        // JSON, or auto-detected without a Content-Type: empty bodies are undefined
+        if (!text) return undefined;
+        try {
+            return JSON.parse(text);
+        } catch (error) {
+            if (responseType === 'auto' && !contentType) return text;
+            throw new HttpError(
+                `${config.method} ${config.url} returned an invalid response body`,
+                { ...details, kind: 'parse', cause: error }
+            );
+        }
+    }
+
+    /**
+     * Read an error response body as JSON if possible, otherwise as text
+     */
+    private static async readErrorBody(response: Response): Promise<unknown> {
+        let text: string;
+        try {
+            text = await response.text();
+        } catch {
+            return undefined;
         }
+        if (!text) return undefined;
+
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+
+    /**
+     * Compute the exponential backoff delay before the next attempt
+     */
+    private static backoff(policy: Required<Omit<HttpRetryConfig, 'idempotencyKey'>>, attempt: number): number {
+        const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+        return policy.jitter ? Math.random() * delay : delay;
+    }
+
+    /**
+     * Read the `Retry-After` header of a 429 or 503 response
+     * @returns The delay in milliseconds, or undefined if absent or not applicable
+     */
+    private static retryAfter(response: Response): number | undefined {
+        if (response.status !== HttpStatus.TOO_MANY_REQUESTS && response.status !== HttpStatus.SERVICE_UNAVAILABLE) {
+            return undefined;
+        }
+
+        const value = response.headers.get('Retry-After');
+        if (value === null) return undefined;
+
+        // Either delay-seconds or an HTTP date
+        const delay = /^\d+$/.test(value.trim()) ? Number(value) * 1000 : Date.parse(value) - Date.now();
+        return Number.isNaN(delay) ? undefined : Math.max(0, delay);
+    }
+
+    /**
+     * Wait before a retry, stopping early if the request is aborted
+     * @throws {HttpError} With kind `aborted` if the request was aborted while waiting
+     */
+    private static async delay(ms: number, config: HttpRequestConfig, signal: AbortSignal): Promise<void> {
+        await new Promise<void>(resolve => {
+            const id = setTimeout(done, ms);
+            signal.addEventListener('abort', done, { once: true });
+            function done() {
+                clearTimeout(id);
+                signal.removeEventListener('abort', done);
+                resolve();
+            }
+        });
+        if (signal.aborted) {
+            throw HttpClient.abortError(config, signal);
+        }
+    }
+
+    /**
+     * Build the error for a request cancelled by its signal or {@link abortAll}
+     */
+    private static abortError(config: HttpRequestConfig, signal: AbortSignal): HttpError {
+        return new HttpError(`${config.method} ${config.url} was aborted`, { kind: 'aborted', config, cause: signal.reason });
     }
 }
 
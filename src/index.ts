@@ -1,6 +1,14 @@
 // Classes
 export * from './classes/Helix';
+export * from './classes/HelixKey';
+export * from './classes/HelixRevocationStore';
+export * from './classes/HelixWorkerLease';
+export * from './classes/HelixSchema';
+export * from './classes/HelixWebhook';
+export * from './classes/Ulid';
+export * from './classes/UuidV7';
 export * from './classes/fetch';
+export * from './classes/HttpError';
 
 // Utils
 export * from './utils/date';
@@ -10,4 +18,5 @@ export * from './utils/array';
 export * from './utils/object';
 export * from './utils/web';
 export * from './utils/try';
+export * from './utils/password';
 export * from './json/httpCodes';
\ No newline at end of file
@@ -0,0 +1,255 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+    password: crypto.BinaryLike,
+    salt: crypto.BinaryLike,
+    keyLength: number,
+    options: crypto.ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+/**
+ * Options for {@link hashPassword} and {@link needsRehash}
+ */
+export interface PasswordHashOptions {
+    /** Key derivation function, defaults to `scrypt` (or `pbkdf2` where scrypt is unavailable) */
+    algorithm?: 'scrypt' | 'pbkdf2';
+    /** scrypt CPU/memory cost as a power of two (default 15, i.e. N = 32768) */
+    cost?: number;
+    /** scrypt block size (default 8) */
+    blockSize?: number;
+    /** scrypt parallelization (default 1) */
+    parallelization?: number;
+    /** PBKDF2-SHA256 iterations (default 600000) */
+    iterations?: number;
+    /** Salt length in bytes (default 16) */
+    saltLength?: number;
+    /** Derived key length in bytes (default 32) */
+    keyLength?: number;
+}
+
+/**
+ * A decoded password hash
+ */
+interface ParsedPasswordHash {
+    algorithm: 'scrypt' | 'pbkdf2';
+    params: Record<string, number>;
+    salt: Buffer;
+    hash: Buffer;
+}
+
+/**
+ * Hashes a password for storage
+ * The result is a self-describing string in PHC format, e.g.
+ * `$scrypt$ln=15,r=8,p=1$<salt>$<hash>` or `$pbkdf2-sha256$i=600000$<salt>$<hash>`,
+ * so parameters can be raised later without breaking existing hashes.
+ * @param password - The password to hash
+ * @param options - Algorithm and cost parameters
+ * @returns Promise resolving to the encoded hash
+ * @example
+ * const stored = await hashPassword('hunter2'); // '$scrypt$ln=15,r=8,p=1$...'
+ */
+export async function hashPassword(password: string, options: PasswordHashOptions = {}): Promise<string> {
+    const settings = resolvePasswordOptions(options);
+    const salt = crypto.randomBytes(settings.saltLength);
+
+    if (settings.algorithm === 'scrypt') {
+        const params = { ln: settings.cost, r: settings.blockSize, p: settings.parallelization };
+        const hash = await deriveScrypt(password, salt, settings.keyLength, params);
+        return encodePasswordHash('scrypt', params, salt, hash);
+    }
+
+    const hash = await pbkdf2(password, salt, settings.iterations, settings.keyLength, 'sha256');
+    return encodePasswordHash('pbkdf2-sha256', { i: settings.iterations }, salt, hash);
+}
+
+/**
+ * Verifies a password against a hash created by {@link hashPassword}
+ * The derived key is compared in constant time.
+ * @param password - The password to check
+ * @param encoded - The stored hash
+ * @returns Promise resolving to true if the password matches
+ * @throws Error if the stored hash is malformed or uses an unsupported algorithm
+ * @example
+ * if (await verifyPassword(input, user.passwordHash)) {
+ *   // Signed in
+ * }
+ */
+export async function verifyPassword(password: string, encoded: string): Promise<boolean> {
+    const { algorithm, params, salt, hash } = parsePasswordHash(encoded);
+
+    const derived = algorithm === 'scrypt'
+        ? await deriveScrypt(password, salt, hash.length, { ln: params.ln, r: params.r, p: params.p })
+        : await pbkdf2(password, salt, params.i, hash.length, 'sha256');
+
+    return crypto.timingSafeEqual(derived, hash);
+}
+
+/**
+ * Checks whether a stored hash was created with weaker settings than the current ones
+ * Call after a successful {@link verifyPassword} and store a fresh hash when it returns true.
+ * @param encoded - The stored hash
+ * @param options - The current algorithm and cost parameters
+ * @returns True if the hash uses another algorithm or lower parameters
+ * @throws Error if the stored hash is malformed
+ * @example
+ * if (await verifyPassword(input, user.passwordHash) && needsRehash(user.passwordHash)) {
+ *   user.passwordHash = await hashPassword(input);
+ * }
+ */
+export function needsRehash(encoded: string, options: PasswordHashOptions = {}): boolean {
+    const settings = resolvePasswordOptions(options);
+    const { algorithm, params, salt, hash } = parsePasswordHash(encoded);
+
+    if (algorithm !== settings.algorithm || salt.length < settings.saltLength || hash.length < settings.keyLength) {
+        return true;
+    }
+    if (algorithm === 'scrypt') {
+        return params.ln < settings.cost || params.r < settings.blockSize || params.p < settings.parallelization;
+    }
+    return params.i < settings.iterations;
+}
+
+/**
+ * Generates a random API key and the hash to store for it
+ * API keys are high-entropy, so a fast SHA-256 hash is sufficient and lets the
+ * hash be used as a database lookup key. Only the hash should be stored.
+ * @param prefix - Identifies the key type at a glance, e.g. `vtv_live`
+ * @param options - Optional configuration
+ * @param options.bytes - Random bytes in the key (default 32)
+ * @returns The key to show the user once, and the hash to store
+ * @throws Error if the prefix contains characters other than letters, digits and underscores
+ * @example
+ * const { key, hash } = generateApiKey('vtv_live'); // key: 'vtv_live_ioCHph1g...'
+ */
+export function generateApiKey(prefix: string, options: { bytes?: number } = {}): { key: string; hash: string } {
+    if (!/^[A-Za-z0-9_]+$/.test(prefix)) {
+        throw new Error('API key prefix may only contain letters, digits and underscores');
+    }
+
+    const key = `${prefix}_${crypto.randomBytes(options.bytes ?? 32).toString('base64url')}`;
+    return { key, hash: hashApiKey(key) };
+}
+
+/**
+ * Hashes an API key for storage or lookup
+ * @param key - The API key
+ * @returns The hex encoded SHA-256 hash
+ */
+export function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Verifies an API key against its stored hash in constant time
+ * @param key - The API key presented by the client
+ * @param hash - The stored hash from {@link generateApiKey}
+ * @returns True if the key matches
+ */
+export function verifyApiKey(key: string, hash: string): boolean {
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.createHash('sha256').update(key).digest();
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Fills in default password hashing options
+ * @param options - The given options
+ * @returns The options with defaults applied
+ */
+function resolvePasswordOptions(options: PasswordHashOptions): Required<PasswordHashOptions> {
+    return {
+        // Some runtimes (e.g. FIPS builds) lack scrypt; PBKDF2 is available everywhere
+        algorithm: options.algorithm ?? (typeof crypto.scrypt === 'function' ? 'scrypt' : 'pbkdf2'),
+        cost: options.cost ?? 15,
+        blockSize: options.blockSize ?? 8,
+        parallelization: options.parallelization ?? 1,
+        iterations: options.iterations ?? 600000,
+        saltLength: options.saltLength ?? 16,
+        keyLength: options.keyLength ?? 32
+    };
+}
+
+/**
+ * Runs scrypt with enough memory for the requested cost
+ * @param password - The password
+ * @param salt - The salt
+ * @param keyLength - Derived key length in bytes
+ * @param params - Log2 cost, block size and parallelization
+ * @returns Promise resolving to the derived key
+ */
+function deriveScrypt(
+    password: string,
+    salt: Buffer,
+    keyLength: number,
+    params: { ln: number; r: number; p: number }
+): Promise<Buffer> {
+    const N = 2 ** params.ln;
+    return scrypt(password, salt, keyLength, {
+        N,
+        r: params.r,
+        p: params.p,
+        maxmem: 128 * N * params.r * 2 + 1024 * 1024
+    });
+}
+
+/**
+ * Encodes a password hash in PHC string format
+ * @param id - The algorithm identifier
+ * @param params - The algorithm parameters
+ * @param salt - The salt
+ * @param hash - The derived key
+ * @returns The encoded hash
+ */
+function encodePasswordHash(id: string, params: Record<string, number>, salt: Buffer, hash: Buffer): string {
+    const encodedParams = Object.entries(params).map(([name, value]) => `${name}=${value}`).join(',');
+    return `$${id}$${encodedParams}$${toB64(salt)}$${toB64(hash)}`;
+}
+
+/**
+ * Decodes a PHC format password hash
+ * @param encoded - The encoded hash
+ * @returns The algorithm, parameters, salt and derived key
+ * @throws Error if the hash is malformed or uses an unsupported algorithm
+ */
+function parsePasswordHash(encoded: string): ParsedPasswordHash {
+    const [empty, id, encodedParams, salt, hash, ...rest] = encoded.split('$');
+    if (empty !== '' || hash === undefined || rest.length > 0) {
+        throw new Error('Invalid password hash format');
+    }
+
+    const params: Record<string, number> = {};
+    for (const pair of encodedParams.split(',')) {
+        const [name, value] = pair.split('=');
+        if (!/^\d+$/.test(value ?? '')) {
+            throw new Error('Invalid password hash format');
+        }
+        params[name] = Number(value);
+    }
+
+    let algorithm: ParsedPasswordHash['algorithm'];
+    if (id === 'scrypt' && params.ln && params.r && params.p) {
+        algorithm = 'scrypt';
+    } else if (id === 'pbkdf2-sha256' && params.i) {
+        algorithm = 'pbkdf2';
+    } else {
+        throw new Error(`Unsupported password hash: ${id}`);
+    }
+
+    const decodedHash = Buffer.from(hash, 'base64');
+    if (decodedHash.length === 0) {
+        throw new Error('Invalid password hash format');
+    }
+
+    return { algorithm, params, salt: Buffer.from(salt, 'base64'), hash: decodedHash };
+}
+
+/**
+ * Encodes bytes as unpadded base64, as used by the PHC string format
+ * @param bytes - The bytes to encode
+ * @returns The encoded string
+ */
+function toB64(bytes: Buffer): string {
+    return bytes.toString('base64').replace(/=+$/, '');
+}